@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { AeroRoute, ETH_ADDRESS } from "./decoder";
+import { ExecutionVenue, VenueRequest, VenueQuote } from "./venues";
+
+// ─────────────────────────────────────────────
+// VENUE DIRETA: AERODROME (Router v2, pools volatile/stable)
+// ─────────────────────────────────────────────
+// Cota pelo próprio router (getAmountsOut): direto ou passando por WETH,
+// escolhendo volatile/stable em cada hop.
+
+const DEADLINE_SEC = 120;
+
+const ROUTE = "(address from, address to, bool stable, address factory)";
+const ROUTER = new ethers.Interface([
+  `function getAmountsOut(uint256 amountIn, ${ROUTE}[] routes) view returns (uint256[] amounts)`,
+  `function swapExactETHForTokens(uint256 amountOutMin, ${ROUTE}[] routes, address to, uint256 deadline) payable returns (uint256[] amounts)`,
+  `function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, ${ROUTE}[] routes, address to, uint256 deadline) returns (uint256[] amounts)`,
+  `function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, ${ROUTE}[] routes, address to, uint256 deadline) returns (uint256[] amounts)`,
+]);
+
+function normalize(token: string, weth: string): string {
+  const t = token.toLowerCase();
+  return t === ETH_ADDRESS ? weth : t;
+}
+
+async function findRoute(req: VenueRequest): Promise<{ routes: AeroRoute[]; amountOut: bigint } | null> {
+  const aero = req.chain.aerodrome!;
+  const weth = req.chain.weth;
+  const tokenIn = normalize(req.sellToken, weth);
+  const tokenOut = normalize(req.buyToken, weth);
+  if (tokenIn === tokenOut) return null;
+
+  const hop = (from: string, to: string, stable: boolean): AeroRoute => ({ from, to, stable, factory: aero.factory });
+  const candidates: AeroRoute[][] = [[hop(tokenIn, tokenOut, false)], [hop(tokenIn, tokenOut, true)]];
+  if (tokenIn !== weth && tokenOut !== weth) {
+    for (const s1 of [false, true]) {
+      for (const s2 of [false, true]) candidates.push([hop(tokenIn, weth, s1), hop(weth, tokenOut, s2)]);
+    }
+  }
+
+  const results = await Promise.all(candidates.map(async (routes) => {
+    const amountOut = await quoteRoutes(req, routes);
+    return amountOut ? { routes, amountOut } : null;
+  }));
+
+  let best: { routes: AeroRoute[]; amountOut: bigint } | null = null;
+  for (const r of results) if (r && (!best || r.amountOut > best.amountOut)) best = r;
+  return best;
+}
+
+// Cota uma rota já pronta (ex: a da whale) no router; null se algum pool não existir
+export async function quoteRoutes(req: VenueRequest, routes: AeroRoute[]): Promise<bigint | null> {
+  const router = new ethers.Contract(req.chain.aerodrome!.router, ROUTER, req.provider);
+  try {
+    const amounts: bigint[] = await router.getAmountsOut(req.sellAmount, routes);
+    const out = amounts[amounts.length - 1];
+    return out > 0n ? out : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function buildAeroQuote(
+  req: VenueRequest,
+  route: { routes: AeroRoute[]; amountOut: bigint },
+  slippageBps: number,
+  venue: string
+): Promise<VenueQuote> {
+  const router = req.chain.aerodrome!.router;
+  const ethIn = req.sellToken.toLowerCase() === ETH_ADDRESS;
+  const ethOut = req.buyToken.toLowerCase() === ETH_ADDRESS;
+  const minOut = (route.amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+  const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SEC;
+
+  const data = ethIn
+    ? ROUTER.encodeFunctionData("swapExactETHForTokens", [minOut, route.routes, req.taker, deadline])
+    : ROUTER.encodeFunctionData(ethOut ? "swapExactTokensForETH" : "swapExactTokensForTokens", [req.sellAmount, minOut, route.routes, req.taker, deadline]);
+  const value = ethIn ? req.sellAmount.toString() : "0";
+  const gas = await req.provider
+    .estimateGas({ from: req.taker, to: router, data, value: BigInt(value) })
+    .catch(() => undefined);
+
+  return {
+    venue,
+    buyAmount: route.amountOut,
+    minBuyAmount: minOut,
+    spender: ethIn ? null : router,
+    transaction: { to: router, data, value, gas: gas?.toString() },
+  };
+}
+
+export const aerodromeVenue: ExecutionVenue = {
+  name: "aerodrome",
+  supports: (chain) => Boolean(chain.aerodrome),
+
+  async price(req): Promise<VenueQuote | null> {
+    const route = await findRoute(req);
+    if (!route) return null;
+    const spender = req.sellToken.toLowerCase() === ETH_ADDRESS ? null : req.chain.aerodrome!.router;
+    return { venue: "aerodrome", buyAmount: route.amountOut, spender };
+  },
+
+  async quote(req, slippageBps): Promise<VenueQuote | null> {
+    const route = await findRoute(req);
+    return route ? buildAeroQuote(req, route, slippageBps, "aerodrome") : null;
+  },
+};
@@ -0,0 +1,273 @@
+import { logger } from "./logger";
+import { DRY_RUN, getProfile, setProfileEnabled, walletLabel } from "./config";
+import { getDb } from "./db";
+import { loadFills, realizeFills } from "./ledger";
+import { notifyWhaleDisabled } from "./telegram";
+
+// ─────────────────────────────────────────────
+// ANALYTICS DAS WHALES — desempenho de cada wallet seguida
+// ─────────────────────────────────────────────
+// Todo swap detectado das whales (copiado ou não) vai pra whale_trades com o valor em USD
+// lido do receipt (NULL quando o lado cotado é ETH e não havia preço fresco). Compras e vendas do mesmo token casam em FIFO → trades fechados com
+// retorno, tempo de hold e drawdown. Nossos fills com `whale_tx` mostram o custo de copiar
+// (slippage na entrada/saída e latência em relação ao bloco da whale).
+//
+// ANALYTICS_AUTO_DISABLE=true → desliga a whale (enabled=false no perfil) quando, nos trades fechados
+// dos últimos ANALYTICS_WINDOW_DAYS (padrão 30), com pelo menos ANALYTICS_MIN_TRADES (padrão 10):
+//   win rate < ANALYTICS_MIN_WIN_RATE_PCT  ou  retorno médio < ANALYTICS_MIN_AVG_RETURN_PCT
+
+export interface WhaleTrade {
+  timestamp: number;     // horário do bloco
+  chain: string;
+  whale: string;
+  token: string;
+  side: "buy" | "sell";
+  tokenAmount: string;   // raw
+  valueUsd: number | null;  // quanto a whale gastou (buy) ou recebeu (sell); null = sem preço
+  ethUsd: number | null;
+  txHash: string;
+}
+
+export interface ClosedTrade {
+  chain: string;
+  token: string;
+  returnPct: number;
+  pnlUsd: number;
+  holdMs: number;
+  closedAt: number;
+}
+
+export interface WhaleStats {
+  whale: string;
+  detected: number;           // swaps registrados na janela
+  closed: number;
+  winRate: number | null;     // %
+  avgReturnPct: number | null;
+  avgHoldMs: number | null;
+  maxDrawdownPct: number;     // queda máxima da soma dos retornos (pontos %)
+  copy: {
+    entries: number;          // nossas compras casadas com a compra da whale
+    entrySlippagePct: number | null;
+    exits: number;
+    exitSlippagePct: number | null;
+    latencyMs: number | null;
+    ourAvgReturnPct: number | null;
+  };
+}
+
+interface WhaleTradeRow {
+  timestamp: number;
+  chain: string;
+  whale: string;
+  token: string;
+  side: "buy" | "sell";
+  token_amount: string;
+  value_usd: number | null;
+  eth_usd: number | null;
+  tx_hash: string;
+}
+
+const AUTO_DISABLE = process.env.ANALYTICS_AUTO_DISABLE === "true";
+const WINDOW_MS = parseFloat(process.env.ANALYTICS_WINDOW_DAYS ?? "30") * 86_400_000;
+const MIN_TRADES = parseInt(process.env.ANALYTICS_MIN_TRADES ?? "10", 10) || 10;
+const MIN_WIN_RATE_PCT = process.env.ANALYTICS_MIN_WIN_RATE_PCT ? parseFloat(process.env.ANALYTICS_MIN_WIN_RATE_PCT) : null;
+const MIN_AVG_RETURN_PCT = process.env.ANALYTICS_MIN_AVG_RETURN_PCT ? parseFloat(process.env.ANALYTICS_MIN_AVG_RETURN_PCT) : null;
+
+export function recordWhaleTrade(trade: WhaleTrade): void {
+  try {
+    getDb().prepare(`
+      INSERT OR IGNORE INTO whale_trades (timestamp, chain, whale, token, side, token_amount, value_usd, eth_usd, tx_hash)
+      VALUES (@timestamp, @chain, @whale, @token, @side, @tokenAmount, @valueUsd, @ethUsd, @txHash)
+    `).run({ ...trade, whale: trade.whale.toLowerCase(), token: trade.token.toLowerCase() });
+  } catch (err: any) {
+    logger.error(`❌ Erro ao gravar trade da whale: ${err.message}`);
+  }
+}
+
+export function loadWhaleTrades(whale?: string): WhaleTrade[] {
+  const rows = (whale
+    ? getDb().prepare("SELECT * FROM whale_trades WHERE whale = ? ORDER BY timestamp, id").all(whale.toLowerCase())
+    : getDb().prepare("SELECT * FROM whale_trades ORDER BY timestamp, id").all()) as WhaleTradeRow[];
+  return rows.map((r) => ({
+    timestamp: r.timestamp,
+    chain: r.chain,
+    whale: r.whale,
+    token: r.token,
+    side: r.side,
+    tokenAmount: r.token_amount,
+    valueUsd: r.value_usd,
+    ethUsd: r.eth_usd,
+    txHash: r.tx_hash,
+  }));
+}
+
+// Casa vendas com compras do mesmo token em FIFO. Venda sem compra registrada antes
+// (whale já tinha o token quando começamos a seguir) é ignorada. Sem valor em USD de um
+// dos lados, a quantidade casa (consome o lote) mas o trade fica fora das estatísticas.
+export function closeTrades(trades: WhaleTrade[]): ClosedTrade[] {
+  const lots = new Map<string, { amount: bigint; costUsd: number | null; at: number }[]>();
+  const closed: ClosedTrade[] = [];
+
+  for (const t of trades) {
+    const key = `${t.chain}:${t.token}`;
+    const amount = BigInt(t.tokenAmount);
+    if (amount <= 0n) continue;
+    if (t.side === "buy") {
+      lots.set(key, [...(lots.get(key) ?? []), { amount, costUsd: t.valueUsd, at: t.timestamp }]);
+      continue;
+    }
+
+    const queue = lots.get(key) ?? [];
+    let left = amount;
+    let costUsd = 0;
+    let holdWeighted = 0;
+    let matched = 0n;
+    let priced = t.valueUsd !== null;
+    while (left > 0n && queue.length > 0) {
+      const lot = queue[0];
+      const take = lot.amount < left ? lot.amount : left;
+      const share = Number((take * 1_000_000n) / lot.amount) / 1_000_000;
+      if (lot.costUsd === null) {
+        priced = false;
+      } else {
+        const lotCost = lot.costUsd * share;
+        costUsd += lotCost;
+        holdWeighted += (t.timestamp - lot.at) * lotCost;
+        lot.costUsd -= lotCost;
+      }
+      lot.amount -= take;
+      left -= take;
+      matched += take;
+      if (lot.amount === 0n) queue.shift();
+    }
+    if (matched === 0n || !priced || t.valueUsd === null || costUsd <= 0) continue;
+
+    // Só a parte casada da venda entra no retorno
+    const proceeds = t.valueUsd * (Number((matched * 1_000_000n) / amount) / 1_000_000);
+    closed.push({
+      chain: t.chain,
+      token: t.token,
+      returnPct: (proceeds / costUsd - 1) * 100,
+      pnlUsd: proceeds - costUsd,
+      holdMs: holdWeighted / costUsd,
+      closedAt: t.timestamp,
+    });
+  }
+  return closed;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function maxDrawdown(returns: number[]): number {
+  let cum = 0;
+  let peak = 0;
+  let dd = 0;
+  for (const r of returns) {
+    cum += r;
+    peak = Math.max(peak, cum);
+    dd = Math.max(dd, peak - cum);
+  }
+  return dd;
+}
+
+// Nosso resultado copiando a whale: preço dos nossos fills vs o fill da whale na mesma tx
+function copyStats(whaleTrades: WhaleTrade[], since: number): WhaleStats["copy"] {
+  const byTx = new Map(whaleTrades.map((t) => [`${t.txHash}:${t.token}:${t.side}`, t]));
+  const fills = loadFills().filter((f) => f.paper === DRY_RUN);
+  const entrySlip: number[] = [];
+  const exitSlip: number[] = [];
+  const latency: number[] = [];
+  const copiedPositions = new Set<string>();
+
+  for (const f of fills) {
+    if (!f.whaleTx || f.timestamp < since) continue;
+    const theirs = byTx.get(`${f.whaleTx}:${f.token}:${f.side}`);
+    const ourAmount = Number(BigInt(f.tokenAmount));
+    const theirAmount = Number(BigInt(theirs?.tokenAmount ?? "0"));
+    if (!theirs || ourAmount <= 0 || theirAmount <= 0 || f.ethUsd === null || theirs.valueUsd === null) continue;
+
+    // USD por token (raw) dos dois lados
+    const ours = (f.eth * f.ethUsd) / ourAmount;
+    const their = theirs.valueUsd / theirAmount;
+    if (f.side === "buy") {
+      entrySlip.push((ours / their - 1) * 100);
+      if (f.positionId) copiedPositions.add(f.positionId);
+    } else {
+      exitSlip.push((1 - ours / their) * 100);
+    }
+    latency.push(f.timestamp - theirs.timestamp);
+  }
+
+  const ourReturns = realizeFills(fills)
+    .filter((r) => r.fill.positionId && copiedPositions.has(r.fill.positionId) && r.costEth > 0)
+    .map((r) => (r.pnlEth / r.costEth) * 100);
+
+  return {
+    entries: entrySlip.length,
+    entrySlippagePct: average(entrySlip),
+    exits: exitSlip.length,
+    exitSlippagePct: average(exitSlip),
+    latencyMs: average(latency),
+    ourAvgReturnPct: average(ourReturns),
+  };
+}
+
+// Estatísticas da whale nos trades fechados desde `since` (padrão: janela ANALYTICS_WINDOW_DAYS)
+export function getWhaleStats(whale: string, since = Date.now() - WINDOW_MS): WhaleStats {
+  const trades = loadWhaleTrades(whale);
+  const closed = closeTrades(trades).filter((c) => c.closedAt >= since);
+  const wins = closed.filter((c) => c.pnlUsd > 0).length;
+
+  return {
+    whale: whale.toLowerCase(),
+    detected: trades.filter((t) => t.timestamp >= since).length,
+    closed: closed.length,
+    winRate: closed.length ? (wins / closed.length) * 100 : null,
+    avgReturnPct: average(closed.map((c) => c.returnPct)),
+    avgHoldMs: average(closed.map((c) => c.holdMs)),
+    maxDrawdownPct: maxDrawdown(closed.map((c) => c.returnPct)),
+    copy: copyStats(trades, since),
+  };
+}
+
+export function getAllWhaleStats(since?: number): WhaleStats[] {
+  const whales = getDb().prepare("SELECT DISTINCT whale FROM whale_trades").all() as { whale: string }[];
+  return whales.map((w) => getWhaleStats(w.whale, since));
+}
+
+// Chamado a cada venda registrada: desliga a whale se o desempenho recente caiu abaixo do limite
+export async function checkAutoDisable(whale: string): Promise<void> {
+  if (!AUTO_DISABLE || (MIN_WIN_RATE_PCT === null && MIN_AVG_RETURN_PCT === null)) return;
+  const profile = getProfile(whale);
+  if (!profile?.enabled) return;
+
+  const stats = getWhaleStats(whale);
+  if (stats.closed < MIN_TRADES) return;
+
+  const reasons: string[] = [];
+  if (MIN_WIN_RATE_PCT !== null && stats.winRate! < MIN_WIN_RATE_PCT) {
+    reasons.push(`win rate ${stats.winRate!.toFixed(1)}% < ${MIN_WIN_RATE_PCT}%`);
+  }
+  if (MIN_AVG_RETURN_PCT !== null && stats.avgReturnPct! < MIN_AVG_RETURN_PCT) {
+    reasons.push(`retorno médio ${stats.avgReturnPct!.toFixed(1)}% < ${MIN_AVG_RETURN_PCT}%`);
+  }
+  if (reasons.length === 0) return;
+
+  const reason = `${reasons.join(", ")} em ${stats.closed} trades`;
+  if (!setProfileEnabled(whale, false)) {
+    logger.warn(`⚠️  ${walletLabel(whale)} abaixo do limite (${reason}), mas o perfil não pôde ser desligado`);
+    return;
+  }
+  logger.warn(`📉 ${walletLabel(whale)} desligada automaticamente: ${reason}`);
+  await notifyWhaleDisabled({ whale, reason, stats });
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  const min = ms / 60_000;
+  if (min < 60) return `${min.toFixed(0)}min`;
+  if (min < 1440) return `${(min / 60).toFixed(1)}h`;
+  return `${(min / 1440).toFixed(1)}d`;
+}
@@ -0,0 +1,243 @@
+import http from "http";
+import fs from "fs";
+import path from "path";
+import { timingSafeEqual } from "crypto";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { isPaused, setPaused, pauseReason } from "./control";
+import { getProfiles, addProfile, removeProfile, isValidAddress, walletLabel, DRY_RUN } from "./config";
+import { getAllPositions } from "./positions";
+import { loadFills, summarizePnl, getUnrealizedPnl } from "./ledger";
+import { getAllWhaleStats } from "./analytics";
+import { getChains } from "./chains";
+
+// ─────────────────────────────────────────────
+// API HTTP + DASHBOARD
+// ─────────────────────────────────────────────
+// API_PORT=8080       → liga o servidor (sem ela, nada sobe)
+// API_HOST=127.0.0.1  → interface (padrão só local; exponha via túnel SSH ou proxy com TLS)
+// API_TOKEN=...       → obrigatório: todo /api/* exige `Authorization: Bearer <token>` (sem ele o servidor não sobe)
+// GET  /                            dashboard (public/index.html, sem dados; o token fica no navegador)
+// GET  /api/status                  pausa, modo, uptime e saúde de cada chain (WS, mempool, último bloco)
+// GET  /api/positions[?live=1]      posições abertas (com PnL não realizado cotado nas venues se live=1)
+// GET  /api/trades[?limit=100]      últimos fills do ledger
+// GET  /api/pnl                     PnL realizado total e por whale
+// GET  /api/whales                  desempenho de cada whale (analytics.ts)
+// GET  /api/balances                saldo ETH da wallet do bot em cada chain
+// GET  /api/config                  perfis das whales e configuração efetiva (sem segredos)
+// POST /api/pause | /api/resume
+// POST /api/wallets                 { address, label? }  → segue uma whale
+// POST /api/wallets/remove          { address }          → para de seguir
+// POST /api/positions/:id/sell      { pct? }             → vende pct% (padrão 100) da posição
+
+export interface ChainHealth {
+  chain: string;
+  name: string;
+  chainId: number;
+  wsConnected: boolean;
+  mempool: "desligado" | "conectado" | "desconectado";
+  lastBlock: number | null;
+  pendingTxs: number;
+}
+
+export interface ApiHandlers {
+  walletAddress: string;
+  getEthBalance(chain: string): Promise<bigint>;
+  sellPositionById(positionId: string, fraction: number, reason: string): Promise<string>;
+  chainHealth(): ChainHealth[];
+  // Configuração efetiva do processo (sizing, venues, gas...), só valores não sensíveis
+  configSummary(): Record<string, unknown>;
+}
+
+const PUBLIC_DIR = path.join(__dirname, "..", "public");
+const MAX_BODY_BYTES = 64 * 1024;
+const startedAt = Date.now();
+
+// Erro com status HTTP; qualquer outro erro vira 500
+function httpError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(json);
+}
+
+// Corpo JSON sempre objeto ({} se vazio): null, array ou valor solto viram 400
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(httpError(413, "corpo grande demais"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      if (!body) return resolve({});
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        return reject(httpError(400, "JSON inválido"));
+      }
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        return reject(httpError(400, "corpo deve ser um objeto JSON"));
+      }
+      resolve(parsed as Record<string, unknown>);
+    });
+    req.on("error", reject);
+  });
+}
+
+function isAuthorized(req: http.IncomingMessage): boolean {
+  const token = process.env.API_TOKEN;
+  if (!token) return false;
+  const header = req.headers.authorization ?? "";
+  const given = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function serveStatic(res: http.ServerResponse, urlPath: string): void {
+  const file = path.normalize(path.join(PUBLIC_DIR, urlPath === "/" ? "index.html" : urlPath));
+  if (!file.startsWith(PUBLIC_DIR) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    sendJson(res, 404, { error: "não encontrado" });
+    return;
+  }
+  const types: Record<string, string> = { ".html": "text/html", ".js": "text/javascript", ".css": "text/css" };
+  res.writeHead(200, { "Content-Type": `${types[path.extname(file)] ?? "application/octet-stream"}; charset=utf-8` });
+  fs.createReadStream(file).pipe(res);
+}
+
+async function handleGet(h: ApiHandlers, pathname: string, query: URLSearchParams): Promise<unknown> {
+  switch (pathname) {
+    case "/api/status":
+      return {
+        paused: isPaused(),
+        pauseReason: pauseReason(),
+        dryRun: DRY_RUN,
+        uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+        openPositions: getAllPositions().length,
+        chains: h.chainHealth(),
+      };
+    case "/api/positions": {
+      if (query.get("live") === "1") {
+        const live = await getUnrealizedPnl(h.walletAddress);
+        return live.map((p) => ({ ...p, whaleLabel: walletLabel(p.whale) }));
+      }
+      return getAllPositions().map(({ whale, position }) => ({ whale, whaleLabel: walletLabel(whale), ...position }));
+    }
+    case "/api/trades": {
+      const limit = Math.min(Math.max(parseInt(query.get("limit") ?? "100", 10) || 100, 1), 1000);
+      return loadFills().slice(-limit).reverse().map((f) => ({ ...f, whaleLabel: walletLabel(f.whale) }));
+    }
+    case "/api/pnl": {
+      const { overall, byWhale } = summarizePnl();
+      return {
+        overall,
+        byWhale: [...byWhale.entries()].map(([whale, s]) => ({ whale, whaleLabel: walletLabel(whale), ...s })),
+      };
+    }
+    case "/api/whales": {
+      const stats = new Map(getAllWhaleStats().map((s) => [s.whale, s]));
+      // Whales seguidas sem nenhum swap registrado também aparecem
+      const profiles = getProfiles();
+      const known = new Set(profiles.map((p) => p.address));
+      return [
+        ...profiles.map((p) => ({ whale: p.address, label: p.label, enabled: p.enabled, stats: stats.get(p.address) ?? null })),
+        ...[...stats.values()].filter((s) => !known.has(s.whale)).map((s) => ({ whale: s.whale, label: walletLabel(s.whale), enabled: false, stats: s })),
+      ];
+    }
+    case "/api/balances":
+      return Promise.all(getChains().map(async (chain) => {
+        try {
+          return { chain: chain.key, name: chain.name, eth: ethers.formatEther(await h.getEthBalance(chain.key)) };
+        } catch (err: any) {
+          return { chain: chain.key, name: chain.name, eth: null, error: err.shortMessage ?? err.message };
+        }
+      }));
+    case "/api/config":
+      return { profiles: getProfiles(), ...h.configSummary() };
+    default:
+      throw httpError(404, "endpoint desconhecido");
+  }
+}
+
+function addressField(body: Record<string, unknown>): string {
+  const address = body.address;
+  if (typeof address !== "string" || !isValidAddress(address)) throw httpError(400, "address inválido");
+  return address;
+}
+
+async function handlePost(h: ApiHandlers, pathname: string, body: Record<string, unknown>): Promise<unknown> {
+  if (pathname === "/api/pause") {
+    setPaused(true, "api");
+    return { paused: true };
+  }
+  if (pathname === "/api/resume") {
+    setPaused(false);
+    return { paused: false };
+  }
+  if (pathname === "/api/wallets") {
+    const address = addressField(body);
+    return addProfile(address, typeof body.label === "string" && body.label.trim() ? body.label.trim() : undefined);
+  }
+  if (pathname === "/api/wallets/remove") {
+    const address = addressField(body);
+    if (!removeProfile(address)) throw httpError(404, "wallet não encontrada");
+    return { removed: address.toLowerCase() };
+  }
+  const sell = pathname.match(/^\/api\/positions\/([^/]+)\/sell$/);
+  if (sell) {
+    const pct = body.pct === undefined ? 100 : Number(body.pct);
+    if (!(pct > 0 && pct <= 100)) throw httpError(400, "pct deve estar entre 0 e 100");
+    const message = await h.sellPositionById(decodeURIComponent(sell[1]), pct / 100, `manual via API (${pct}%)`);
+    return { message };
+  }
+  throw httpError(404, "endpoint desconhecido");
+}
+
+export function startApiServer(handlers: ApiHandlers): void {
+  const port = parseInt(process.env.API_PORT ?? "", 10);
+  if (!port) return;
+  const host = process.env.API_HOST ?? "127.0.0.1";
+  if (!process.env.API_TOKEN) {
+    logger.error("❌ API_PORT definido sem API_TOKEN: API não iniciada");
+    return;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (req.method === "GET" && !url.pathname.startsWith("/api/")) {
+        serveStatic(res, url.pathname);
+        return;
+      }
+      if (!isAuthorized(req)) throw httpError(401, "não autorizado");
+      if (req.method === "GET") {
+        sendJson(res, 200, await handleGet(handlers, url.pathname, url.searchParams));
+        return;
+      }
+      if (req.method === "POST") {
+        const body = await readBody(req);
+        logger.info(`🌐 API: POST ${url.pathname}`);
+        sendJson(res, 200, await handlePost(handlers, url.pathname, body));
+        return;
+      }
+      throw httpError(405, "método não suportado");
+    } catch (err: any) {
+      if (err.status) {
+        sendJson(res, err.status, { error: err.message });
+      } else {
+        logger.error(`❌ Erro na API (${req.method} ${url.pathname}): ${err.message}`);
+        sendJson(res, 500, { error: err.message });
+      }
+    }
+  });
+
+  server.on("error", (err) => logger.error(`❌ API HTTP: ${err.message}`));
+  server.listen(port, host, () => logger.info(`🌐 API e dashboard em http://${host}:${port}`));
+}
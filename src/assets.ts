@@ -0,0 +1,84 @@
+import { ETH_ADDRESS } from "./decoder";
+import { ChainConfig } from "./chains";
+
+// ─────────────────────────────────────────────
+// QUOTE ASSETS — "dinheiro" do ponto de vista do bot
+// ─────────────────────────────────────────────
+// Whale trocando token → quote asset = saída (copiamos a venda).
+// Whale trocando quote asset → token = entrada (copiamos a compra).
+// QUOTE_ASSETS=ETH,WETH,USDC,USDbC,cbBTC (símbolos ou endereços; cada chain usa os que existirem nela)
+// FUNDING_ASSET=ETH | USDC | USDbC → com o que o bot paga as compras
+
+export interface QuoteAsset {
+  symbol: string;
+  address: string;
+  decimals: number;
+  stable: boolean;
+}
+
+const RAW_QUOTE_ASSETS = (process.env.QUOTE_ASSETS ?? "ETH,WETH,USDC,USDbC,cbBTC")
+  .split(",").map((s) => s.trim()).filter(Boolean);
+const FUNDING_SYMBOL = (process.env.FUNDING_ASSET ?? "ETH").trim();
+
+function knownAssets(chain: ChainConfig): QuoteAsset[] {
+  return [
+    { symbol: "ETH", address: ETH_ADDRESS, decimals: 18, stable: false },
+    { symbol: "WETH", address: chain.weth, decimals: 18, stable: false },
+    ...chain.assets,
+  ];
+}
+
+function parseQuoteAssets(chain: ChainConfig): QuoteAsset[] {
+  const known = knownAssets(chain);
+  const assets: QuoteAsset[] = [];
+  for (const entry of RAW_QUOTE_ASSETS) {
+    const asset = known.find((a) => a.symbol.toLowerCase() === entry.toLowerCase() || a.address === entry.toLowerCase());
+    if (asset) assets.push(asset);
+    else if (/^0x[0-9a-fA-F]{40}$/.test(entry)) assets.push({ symbol: entry.slice(0, 8), address: entry.toLowerCase(), decimals: 18, stable: false });
+    // símbolo que não existe nessa chain (ex: USDbC fora da Base) é ignorado
+  }
+  // ETH e WETH são sempre quote: as compras/vendas do bot saem e voltam em ETH
+  for (const base of known.slice(0, 2)) {
+    if (!assets.some((a) => a.address === base.address)) assets.push(base);
+  }
+  return assets;
+}
+
+const cache = new Map<string, QuoteAsset[]>();
+
+export function getQuoteAssets(chain: ChainConfig): QuoteAsset[] {
+  if (!cache.has(chain.key)) cache.set(chain.key, parseQuoteAssets(chain));
+  return cache.get(chain.key)!;
+}
+
+export function getQuoteAsset(chain: ChainConfig, token: string): QuoteAsset | undefined {
+  const t = token.toLowerCase();
+  return getQuoteAssets(chain).find((a) => a.address === t);
+}
+
+export function isQuoteAsset(chain: ChainConfig, token: string): boolean {
+  return getQuoteAsset(chain, token) !== undefined;
+}
+
+// Stablecoin usada para pagar as compras; null = ETH nativo.
+// Chamada no startChain também, pra config inválida derrubar o bot na subida e não em cada compra.
+export function getFundingAsset(chain: ChainConfig): QuoteAsset | null {
+  if (FUNDING_SYMBOL.toUpperCase() === "ETH") return null;
+  const asset = chain.assets.find((a) => a.symbol.toLowerCase() === FUNDING_SYMBOL.toLowerCase());
+  if (!asset) {
+    const stables = chain.assets.filter((a) => a.stable).map((a) => a.symbol);
+    throw new Error(`FUNDING_ASSET: ${FUNDING_SYMBOL} não existe na chain ${chain.key} (use ETH${stables.length ? ` ou ${stables.join(", ")}` : ""})`);
+  }
+  if (!asset.stable) throw new Error(`FUNDING_ASSET: ${FUNDING_SYMBOL} não é stablecoin (use ETH ou uma stablecoin da chain ${chain.key})`);
+  return asset;
+}
+
+// Valor em USD de uma quantidade de quote asset (null se não dá pra saber sem oráculo, ex: cbBTC)
+export function quoteAssetUsd(chain: ChainConfig, token: string, amount: bigint, ethPriceUsd: number): number | null {
+  const asset = getQuoteAsset(chain, token);
+  if (!asset) return null;
+  const units = Number(amount) / 10 ** asset.decimals;
+  if (asset.stable) return units;
+  if (asset.symbol === "ETH" || asset.symbol === "WETH") return units * ethPriceUsd;
+  return null;
+}
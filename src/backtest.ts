@@ -0,0 +1,488 @@
+import "dotenv/config";
+import fs from "fs";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { decodeSwap } from "./decoder";
+import { classifySwapEvent, ReceiptLike } from "./swaps";
+import { loadSizingConfig, getSizingConfig, computeTradeSize } from "./sizing";
+import { getProfile, isTokenAllowed } from "./config";
+import { bookAdd, bookPop, bookPositionsForToken, newPositionId, PositionBook } from "./positions";
+import { readEthPrice } from "./price";
+import { chainEnv, getChainDefinition, DEFAULT_CHAIN } from "./chains";
+
+// ─────────────────────────────────────────────
+// BACKTESTER — replay dos swaps históricos de uma whale
+// ─────────────────────────────────────────────
+// npm run backtest -- --wallet 0x... --from 12000000 --to 12100000 [--delay 2] [--chain base]
+//   [--rpc URL | --fixture arquivo.json] [--record arquivo.json] [--out report.json]
+//   [--balance-eth 1] [--eth-usd 3000] [--gas-eth 0.00005]
+//
+// Com --rpc (ou <CHAIN>_HTTP_URL / ALCHEMY_HTTP_URL) busca txs/receipts e cota o preço histórico no
+// QuoterV2 da Uniswap V3 no bloco de entrada/saída (precisa de nó archive).
+// --record grava tudo que foi buscado num fixture; --fixture roda offline a partir dele.
+
+const QUOTER_FEES = [500, 3000, 10000];
+
+export interface BacktestTx {
+  hash: string;
+  from: string;
+  to: string | null;
+  input: string;
+  value: string;
+  blockNumber: number;
+  transactionIndex: number;
+}
+
+export interface BacktestSource {
+  getWalletTxs(wallet: string, fromBlock: number, toBlock: number): Promise<BacktestTx[]>;
+  getReceipt(hash: string): Promise<ReceiptLike | null>;
+  // Quanto sai ao vender `amountIn` (buy: WETH → token, sell: token → WETH) no estado do bloco
+  quote(side: "buy" | "sell", token: string, amountIn: bigint, block: number): Promise<bigint | null>;
+}
+
+interface Fixture {
+  wallet: string;
+  fromBlock: number;
+  toBlock: number;
+  ethUsd?: number;
+  txs: BacktestTx[];
+  receipts: Record<string, { logs: { address: string; topics: string[]; data: string }[] } | null>;
+  quotes: Record<string, string | null>;
+}
+
+function quoteKey(side: string, token: string, amountIn: bigint, block: number): string {
+  return `${side}:${token.toLowerCase()}:${block}:${amountIn.toString()}`;
+}
+
+// ── Fonte RPC (Alchemy / nó archive / Anvil) ──
+
+class RpcSource implements BacktestSource {
+  private provider: ethers.JsonRpcProvider;
+  private quoter: ethers.Contract;
+
+  constructor(url: string, private weth: string, quoterV2: string) {
+    this.provider = new ethers.JsonRpcProvider(url);
+    this.quoter = new ethers.Contract(quoterV2, [
+      "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+    ], this.provider);
+  }
+
+  private async txHashesViaAlchemy(wallet: string, fromBlock: number, toBlock: number): Promise<string[]> {
+    const hashes = new Set<string>();
+    let pageKey: string | undefined;
+    do {
+      const res = await this.provider.send("alchemy_getAssetTransfers", [{
+        fromBlock: ethers.toQuantity(fromBlock),
+        toBlock: ethers.toQuantity(toBlock),
+        fromAddress: wallet,
+        category: ["external", "erc20"],
+        maxCount: "0x3e8",
+        ...(pageKey ? { pageKey } : {}),
+      }]);
+      for (const t of res.transfers ?? []) hashes.add(t.hash);
+      pageKey = res.pageKey;
+    } while (pageKey);
+    return [...hashes];
+  }
+
+  async getWalletTxs(wallet: string, fromBlock: number, toBlock: number): Promise<BacktestTx[]> {
+    const addr = wallet.toLowerCase();
+    const txs: BacktestTx[] = [];
+    const toBacktestTx = (tx: ethers.TransactionResponse): BacktestTx => ({
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      input: tx.data,
+      value: tx.value.toString(),
+      blockNumber: tx.blockNumber!,
+      transactionIndex: tx.index,
+    });
+
+    try {
+      const hashes = await this.txHashesViaAlchemy(addr, fromBlock, toBlock);
+      logger.info(`🔎 ${hashes.length} tx(s) encontradas via alchemy_getAssetTransfers`);
+      for (const hash of hashes) {
+        const tx = await this.provider.getTransaction(hash);
+        if (tx && tx.from.toLowerCase() === addr && tx.blockNumber !== null) txs.push(toBacktestTx(tx));
+      }
+    } catch (err: any) {
+      logger.warn(`⚠️  alchemy_getAssetTransfers indisponível (${err.message}), varrendo blocos ${fromBlock}→${toBlock}`);
+      for (let b = fromBlock; b <= toBlock; b++) {
+        const block = await this.provider.getBlock(b, true);
+        for (const tx of block?.prefetchedTransactions ?? []) {
+          if (tx.from.toLowerCase() === addr) txs.push(toBacktestTx(tx));
+        }
+        if ((b - fromBlock) % 500 === 0) logger.info(`   bloco ${b}/${toBlock}`);
+      }
+    }
+
+    return txs.sort((a, b) => a.blockNumber - b.blockNumber || a.transactionIndex - b.transactionIndex);
+  }
+
+  async getReceipt(hash: string): Promise<ReceiptLike | null> {
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (!receipt) return null;
+    return { logs: receipt.logs.map((l) => ({ address: l.address, topics: [...l.topics], data: l.data })) };
+  }
+
+  async quote(side: "buy" | "sell", token: string, amountIn: bigint, block: number): Promise<bigint | null> {
+    const [tokenIn, tokenOut] = side === "buy" ? [this.weth, token] : [token, this.weth];
+    let best: bigint | null = null;
+    for (const fee of QUOTER_FEES) {
+      try {
+        const [amountOut] = await this.quoter.quoteExactInputSingle.staticCall(
+          { tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0 },
+          { blockTag: block }
+        );
+        if (best === null || amountOut > best) best = amountOut;
+      } catch {
+        // pool inexistente nesse fee tier
+      }
+    }
+    return best;
+  }
+}
+
+// ── Fonte fixture (reprodutível, offline) ──
+
+class FixtureSource implements BacktestSource {
+  constructor(private fixture: Fixture) {}
+
+  async getWalletTxs(wallet: string, fromBlock: number, toBlock: number): Promise<BacktestTx[]> {
+    return this.fixture.txs
+      .filter((tx) => tx.from.toLowerCase() === wallet.toLowerCase() && tx.blockNumber >= fromBlock && tx.blockNumber <= toBlock)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.transactionIndex - b.transactionIndex);
+  }
+
+  async getReceipt(hash: string): Promise<ReceiptLike | null> {
+    return this.fixture.receipts[hash] ?? null;
+  }
+
+  async quote(side: "buy" | "sell", token: string, amountIn: bigint, block: number): Promise<bigint | null> {
+    const out = this.fixture.quotes[quoteKey(side, token, amountIn, block)];
+    return out ? BigInt(out) : null;
+  }
+}
+
+// Envolve outra fonte e grava tudo num fixture
+class RecordingSource implements BacktestSource {
+  readonly fixture: Fixture;
+
+  constructor(private inner: BacktestSource, wallet: string, fromBlock: number, toBlock: number) {
+    this.fixture = { wallet, fromBlock, toBlock, txs: [], receipts: {}, quotes: {} };
+  }
+
+  async getWalletTxs(wallet: string, fromBlock: number, toBlock: number): Promise<BacktestTx[]> {
+    const txs = await this.inner.getWalletTxs(wallet, fromBlock, toBlock);
+    this.fixture.txs.push(...txs);
+    return txs;
+  }
+
+  async getReceipt(hash: string): Promise<ReceiptLike | null> {
+    const receipt = await this.inner.getReceipt(hash);
+    this.fixture.receipts[hash] = receipt
+      ? { logs: receipt.logs.map((l) => ({ address: l.address, topics: [...l.topics], data: l.data })) }
+      : null;
+    return receipt;
+  }
+
+  async quote(side: "buy" | "sell", token: string, amountIn: bigint, block: number): Promise<bigint | null> {
+    const out = await this.inner.quote(side, token, amountIn, block);
+    this.fixture.quotes[quoteKey(side, token, amountIn, block)] = out === null ? null : out.toString();
+    return out;
+  }
+}
+
+// ─────────────────────────────────────────────
+// SIMULAÇÃO
+// ─────────────────────────────────────────────
+
+export interface TokenReport {
+  token: string;
+  buys: number;
+  sells: number;
+  ethIn: number;
+  ethOut: number;
+  gasEth: number;
+  realizedEth: number;
+  openPositions: number;
+  unrealizedEth: number;
+}
+
+export interface BacktestReport {
+  wallet: string;
+  fromBlock: number;
+  toBlock: number;
+  entryDelayBlocks: number;
+  ethUsd: number;
+  swapsSeen: number;
+  skipped: number;
+  tokens: TokenReport[];
+  totals: { ethIn: number; ethOut: number; gasEth: number; realizedEth: number; unrealizedEth: number; pnlEth: number; pnlUsd: number; pnlPct: number };
+}
+
+export async function runBacktest(params: {
+  source: BacktestSource;
+  wallet: string;
+  fromBlock: number;
+  toBlock: number;
+  entryDelayBlocks: number;
+  chain: string;
+  weth: string;
+  routers?: readonly string[];
+  ethUsd: number;
+  startBalanceEth: number;
+  gasEthPerTrade: number;
+}): Promise<BacktestReport> {
+  const { source, fromBlock, toBlock, entryDelayBlocks, weth, ethUsd, gasEthPerTrade } = params;
+  const wallet = params.wallet.toLowerCase();
+  const profile = getProfile(wallet);
+  const sizing = getSizingConfig(loadSizingConfig(), profile?.sizing);
+
+  const book: PositionBook = new Map();
+  const stats = new Map<string, TokenReport>();
+  const statFor = (token: string): TokenReport => {
+    if (!stats.has(token)) {
+      stats.set(token, { token, buys: 0, sells: 0, ethIn: 0, ethOut: 0, gasEth: 0, realizedEth: 0, openPositions: 0, unrealizedEth: 0 });
+    }
+    return stats.get(token)!;
+  };
+
+  // Último preço efetivo da whale por token (wei por unidade raw), usado quando não há cotação
+  const lastWhalePrice = new Map<string, { eth: bigint; tokens: bigint }>();
+
+  let balanceEth = params.startBalanceEth;
+  let swapsSeen = 0;
+  let skipped = 0;
+
+  const txs = await source.getWalletTxs(wallet, fromBlock, toBlock);
+  logger.info(`📜 ${txs.length} tx(s) da whale entre os blocos ${fromBlock} e ${toBlock}`);
+
+  for (const tx of txs) {
+    const swap = decodeSwap({ data: tx.input, value: BigInt(tx.value), to: tx.to ?? undefined, from: wallet, knownRouters: params.routers });
+    if (!swap.isSwap) continue;
+    const receipt = await source.getReceipt(tx.hash);
+    if (!receipt) continue;
+    swapsSeen++;
+
+    const event = classifySwapEvent(receipt, wallet, weth, { txValue: BigInt(tx.value), swap });
+    const block = tx.blockNumber + entryDelayBlocks;
+
+    // Preço efetivo da whale: só dá pra atribuir ETH a um token quando ele é o único do lado oposto
+    if (event.kind === "sell" && event.sold.length === 1 && event.ethOut > 0n) {
+      lastWhalePrice.set(event.sold[0].token, { eth: event.ethOut, tokens: event.sold[0].amount });
+    }
+    const whaleInputEth = event.kind === "buy" && event.bought.length === 1 && event.ethIn > 0n ? event.ethIn : null;
+    if (whaleInputEth) {
+      lastWhalePrice.set(event.bought[0].token, { eth: whaleInputEth, tokens: event.bought[0].amount });
+    }
+
+    // VENDA — mesma regra do bot: cada token que saiu da whale (rotação inclusive) e temos posição
+    for (const { token } of event.sold) {
+      if (profile && !profile.copySells) { skipped++; continue; }
+      const position = bookPop(book, wallet, token);
+      if (!position) continue;
+
+      const amount = BigInt(position.tokenAmount!);
+      let ethOutWei = await source.quote("sell", token, amount, block);
+      const last = lastWhalePrice.get(token);
+      if (ethOutWei === null && last && last.tokens > 0n) ethOutWei = (amount * last.eth) / last.tokens;
+      const ethOut = parseFloat(ethers.formatEther(ethOutWei ?? 0n));
+
+      const stat = statFor(token);
+      stat.sells++;
+      stat.ethOut += ethOut;
+      stat.gasEth += gasEthPerTrade;
+      stat.realizedEth += ethOut - position.entryEth! - gasEthPerTrade;
+      balanceEth += ethOut - gasEthPerTrade;
+      logger.info(`🔴 [${tx.blockNumber}] venda ${token}: ${ethOut.toFixed(6)} ETH (entrada ${position.entryEth!.toFixed(6)})`);
+    }
+
+    // COMPRA — cada token que entrou na whale
+    for (const { token, amount: boughtAmount } of event.bought) {
+      if (profile && (!profile.copyBuys || !isTokenAllowed(profile, token))) { skipped++; continue; }
+
+      const whaleInputUsd = whaleInputEth ? parseFloat(ethers.formatEther(whaleInputEth)) * ethUsd : null;
+      const size = computeTradeSize(sizing, { whaleInputUsd, balanceUsd: balanceEth * ethUsd });
+      if (!size) { skipped++; continue; }
+
+      const ethIn = size.amountUsd / ethUsd;
+      if (ethIn + gasEthPerTrade > balanceEth) {
+        logger.info(`⏭️  [${tx.blockNumber}] saldo simulado insuficiente (${balanceEth.toFixed(6)} ETH)`);
+        skipped++;
+        continue;
+      }
+
+      const ethInWei = ethers.parseEther(ethIn.toFixed(18));
+      let tokensOut = await source.quote("buy", token, ethInWei, block);
+      if (tokensOut === null && whaleInputEth && boughtAmount > 0n) tokensOut = (ethInWei * boughtAmount) / whaleInputEth;
+      if (!tokensOut) { skipped++; continue; }
+
+      bookAdd(book, wallet, {
+        id: newPositionId(),
+        chain: params.chain,
+        token,
+        whaleTx: tx.hash,
+        myTx: `backtest-${tx.blockNumber}`,
+        amountUsd: size.amountUsd,
+        timestamp: tx.blockNumber,
+        tokenAmount: tokensOut.toString(),
+        entryEth: ethIn,
+      });
+      const stat = statFor(token);
+      stat.buys++;
+      stat.ethIn += ethIn;
+      stat.gasEth += gasEthPerTrade;
+      stat.realizedEth -= gasEthPerTrade;
+      balanceEth -= ethIn + gasEthPerTrade;
+      logger.info(`🟢 [${tx.blockNumber}] compra ${token}: $${size.amountUsd} (${size.reason})`);
+    }
+  }
+
+  // Marca posições ainda abertas no último bloco
+  for (const stat of stats.values()) {
+    const open = bookPositionsForToken(book, wallet, stat.token);
+    stat.openPositions = open.length;
+    for (const position of open) {
+      const amount = BigInt(position.tokenAmount!);
+      let out = await source.quote("sell", stat.token, amount, toBlock);
+      const last = lastWhalePrice.get(stat.token);
+      if (out === null && last) out = (amount * last.eth) / last.tokens;
+      stat.unrealizedEth += parseFloat(ethers.formatEther(out ?? 0n)) - position.entryEth!;
+    }
+  }
+
+  const tokens = [...stats.values()];
+  const sum = (f: (t: TokenReport) => number) => tokens.reduce((acc, t) => acc + f(t), 0);
+  const ethIn = sum((t) => t.ethIn);
+  const pnlEth = sum((t) => t.realizedEth + t.unrealizedEth);
+
+  return {
+    wallet,
+    fromBlock,
+    toBlock,
+    entryDelayBlocks,
+    ethUsd,
+    swapsSeen,
+    skipped,
+    tokens,
+    totals: {
+      ethIn,
+      ethOut: sum((t) => t.ethOut),
+      gasEth: sum((t) => t.gasEth),
+      realizedEth: sum((t) => t.realizedEth),
+      unrealizedEth: sum((t) => t.unrealizedEth),
+      pnlEth,
+      pnlUsd: pnlEth * ethUsd,
+      pnlPct: ethIn > 0 ? (pnlEth / ethIn) * 100 : 0,
+    },
+  };
+}
+
+function printReport(report: BacktestReport): void {
+  console.log(`\n📊 Backtest ${report.wallet} — blocos ${report.fromBlock}→${report.toBlock} (delay ${report.entryDelayBlocks} bloco(s), ETH $${report.ethUsd})`);
+  console.log(`   swaps da whale: ${report.swapsSeen} | pulados: ${report.skipped}\n`);
+  console.table(report.tokens.map((t) => ({
+    token: t.token,
+    buys: t.buys,
+    sells: t.sells,
+    "ETH in": t.ethIn.toFixed(6),
+    "ETH out": t.ethOut.toFixed(6),
+    realizado: t.realizedEth.toFixed(6),
+    abertas: t.openPositions,
+    "não realizado": t.unrealizedEth.toFixed(6),
+  })));
+  const t = report.totals;
+  console.log(`\n💰 Total: investido ${t.ethIn.toFixed(6)} ETH | realizado ${t.realizedEth.toFixed(6)} ETH | não realizado ${t.unrealizedEth.toFixed(6)} ETH`);
+  console.log(`   PnL: ${t.pnlEth.toFixed(6)} ETH (~$${t.pnlUsd.toFixed(2)}, ${t.pnlPct.toFixed(1)}%) | gas: ${t.gasEth.toFixed(6)} ETH\n`);
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next && !next.startsWith("--") ? (i++, next) : "true";
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const chainKey = (args.chain ?? DEFAULT_CHAIN).toLowerCase();
+  const chain = getChainDefinition(chainKey);
+  if (!chain) {
+    console.error(`❌ Chain desconhecida: ${chainKey}`);
+    process.exit(1);
+  }
+  const weth = (chainEnv(chainKey, "WETH_ADDRESS") ?? chain.weth).toLowerCase();
+
+  let fixture: Fixture | null = null;
+  if (args.fixture) fixture = JSON.parse(fs.readFileSync(args.fixture, "utf-8"));
+
+  const wallet = args.wallet ?? fixture?.wallet;
+  const fromBlock = parseInt(args.from ?? String(fixture?.fromBlock ?? ""), 10);
+  const toBlock = parseInt(args.to ?? String(fixture?.toBlock ?? ""), 10);
+  if (!wallet || !Number.isFinite(fromBlock) || !Number.isFinite(toBlock)) {
+    console.error("Uso: npm run backtest -- --wallet 0x... --from <bloco> --to <bloco> [--delay N] [--chain base] [--rpc URL | --fixture arquivo.json] [--record arquivo.json] [--out report.json]");
+    process.exit(1);
+  }
+
+  let ethUsd: number | undefined = args["eth-usd"] ? parseFloat(args["eth-usd"]) : fixture?.ethUsd;
+  let source: BacktestSource;
+  let recorder: RecordingSource | null = null;
+  if (fixture) {
+    source = new FixtureSource(fixture);
+    logger.info(`📦 Usando fixture ${args.fixture}`);
+  } else {
+    const rpc = args.rpc ?? chainEnv(chainKey, "HTTP_URL");
+    if (!rpc) {
+      console.error(`❌ Informe --rpc, ${chainKey.toUpperCase()}_HTTP_URL ou --fixture`);
+      process.exit(1);
+    }
+    const quoterV2 = chainEnv(chainKey, "QUOTER_V2_ADDRESS") ?? chain.quoterV2;
+    source = new RpcSource(rpc, weth, quoterV2);
+    if (args.record) source = recorder = new RecordingSource(source, wallet, fromBlock, toBlock);
+    // Preço atual (Chainlink ou pool WETH/USDC), não o do bloco: use --eth-usd pra fixar
+    ethUsd ??= (await readEthPrice({ ...chain, weth, quoterV2 }, new ethers.JsonRpcProvider(rpc))).usd;
+  }
+  if (ethUsd === undefined) {
+    console.error("❌ Fixture sem ethUsd: informe --eth-usd");
+    process.exit(1);
+  }
+  if (recorder) recorder.fixture.ethUsd = ethUsd;
+
+  const report = await runBacktest({
+    source,
+    wallet,
+    fromBlock,
+    toBlock,
+    entryDelayBlocks: parseInt(args.delay ?? "0", 10),
+    chain: chainKey,
+    weth,
+    routers: chain.routers,
+    ethUsd,
+    startBalanceEth: parseFloat(args["balance-eth"] ?? "1"),
+    gasEthPerTrade: parseFloat(args["gas-eth"] ?? "0.00005"),
+  });
+
+  printReport(report);
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    logger.info(`💾 Relatório salvo em ${args.out}`);
+  }
+  if (recorder) {
+    fs.writeFileSync(args.record, JSON.stringify(recorder.fixture, null, 2));
+    logger.info(`💾 Fixture gravado em ${args.record}`);
+  }
+}
+
+if (require.main === module) {
+  if (!fs.existsSync("logs")) fs.mkdirSync("logs");
+  main().catch((err) => {
+    logger.error(`❌ Backtest falhou: ${err.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,79 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { chainEnv, getChainDefinition } from "./chains";
+import { decodeSwap } from "./decoder";
+import { logger } from "./logger";
+
+// ─────────────────────────────────────────────
+// CAPTURA DE FIXTURE — tx real da chain → test/fixtures/decoder.json
+// ─────────────────────────────────────────────
+// npm run capture-fixture -- --tx 0x... --name "1inch: swap v6" [--chain base] [--rpc https://...]
+//
+// Busca a tx pelo hash (RPC de --rpc ou <CHAIN>_HTTP_URL), roda o decoder e grava a fixture
+// com source = chain e o txHash. O "expected" sai do decoder ATUAL: confira cada campo contra
+// o explorer antes de commitar, senão a fixture só congela o comportamento de hoje.
+// Se já existe fixture com o mesmo nome, ela é substituída (troca uma "abi-encoded" pela real).
+
+const FIXTURES_PATH = path.join(__dirname, "..", "test", "fixtures", "decoder.json");
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next && !next.startsWith("--") ? (i++, next) : "true";
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const chainKey = args.chain ?? "base";
+  const def = getChainDefinition(chainKey);
+  const rpc = args.rpc ?? chainEnv(chainKey, "HTTP_URL");
+  if (!args.tx || !args.name || !def || !rpc) {
+    logger.error("❌ Uso: npm run capture-fixture -- --tx <hash> --name <nome> [--chain base] [--rpc <url>] (chain conhecida e RPC obrigatórios)");
+    process.exit(1);
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpc, def.chainId, { staticNetwork: true });
+  const tx = await provider.getTransaction(args.tx);
+  if (!tx) throw new Error(`tx ${args.tx} não encontrada em ${chainKey}`);
+
+  const from = tx.from.toLowerCase();
+  const to = tx.to?.toLowerCase() ?? "";
+  const knownRouters = def.routers.includes(to) ? def.routers : undefined;
+  const swap = decodeSwap({ data: tx.data, value: tx.value, to, from, knownRouters });
+
+  // Mesmo formato das fixtures: bigint como string, campo ausente como null
+  const expected: Record<string, unknown> = {};
+  for (const field of ["isSwap", "protocol", "tokenIn", "tokenOut", "amountIn", "minAmountOut", "recipient", "pools", "route"] as const) {
+    const value = swap[field];
+    expected[field] = value === undefined ? null : typeof value === "bigint" ? value.toString() : value;
+  }
+
+  const fixture = {
+    name: args.name,
+    source: chainKey,
+    txHash: tx.hash,
+    tx: { from, to, value: tx.value.toString(), data: tx.data },
+    ...(knownRouters ? { knownRouters } : {}),
+    expected,
+  };
+  const fixtures: { name: string }[] = JSON.parse(fs.readFileSync(FIXTURES_PATH, "utf8"));
+  const index = fixtures.findIndex((f) => f.name === args.name);
+  if (index >= 0) fixtures[index] = fixture;
+  else fixtures.push(fixture);
+  fs.writeFileSync(FIXTURES_PATH, JSON.stringify(fixtures, null, 2) + "\n");
+
+  logger.info(`📸 Fixture "${args.name}" ${index >= 0 ? "substituída" : "adicionada"}: ${swap.protocol ?? "sem swap"} (${tx.hash})`);
+  logger.info("🔎 Confira o expected contra o explorer antes de commitar");
+}
+
+main().catch((err) => {
+  logger.error(`❌ Captura falhou: ${err.message}`);
+  process.exit(1);
+});
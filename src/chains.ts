@@ -0,0 +1,219 @@
+import { ethers } from "ethers";
+
+// ─────────────────────────────────────────────
+// REGISTRO DE CHAINS
+// ─────────────────────────────────────────────
+// CHAINS=base,arbitrum → um loop de monitoramento por chain no mesmo processo.
+// URLs por chain: <CHAIN>_HTTP_URL, <CHAIN>_WS_URL e <CHAIN>_PENDING_WS_URL
+// (ex: ARBITRUM_HTTP_URL). A Base continua aceitando ALCHEMY_HTTP_URL / ALCHEMY_WS_URL.
+// Só chains com ETH como moeda nativa: o ledger e o sizing são todos em ETH.
+
+export interface ChainAsset {
+  symbol: string;
+  address: string;
+  decimals: number;
+  stable: boolean;
+}
+
+export interface ChainConfig {
+  key: string;
+  name: string;
+  chainId: number;
+  httpUrl: string;
+  wsUrl: string;
+  pendingWsUrl?: string;
+  weth: string;
+  routers: string[];
+  quoterV2: string;
+  swapRouter02: string;                          // Uniswap V3 SwapRouter02 (venue direta)
+  aerodrome?: { router: string; factory: string };
+  ethUsdFeed?: string;                           // Chainlink ETH/USD (price.ts)
+  assets: ChainAsset[];   // quote assets conhecidos (além de ETH/WETH)
+  explorerTxUrl: string;  // template com {hash}
+  chartUrl: string;       // template com {token}
+}
+
+type ChainDefinition = Omit<ChainConfig, "httpUrl" | "wsUrl" | "pendingWsUrl">;
+
+const REGISTRY: Record<string, ChainDefinition> = {
+  base: {
+    key: "base",
+    name: "Base",
+    chainId: 8453,
+    weth: "0x4200000000000000000000000000000000000006",
+    routers: [
+      "0x4409921ae43a39a11d90f7b7f96cfd0b8093d9fc",
+      "0x77449ff075c0a385796da0762bcb46fd5cc884c6",
+      "0xcf77a3ba9a5ca399b7c97c74d54e5b1beb874e43",
+      "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad",
+      "0x1111111254eeb25477b68fb85ed929f73a960582",
+      "0x1985b39d5e55940f2e2b2ded79a23b9e5a25f4ff",
+    ],
+    quoterV2: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+    swapRouter02: "0x2626664c2603336E57B271c5C0b26F421741e481",
+    aerodrome: {
+      router: "0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43",
+      factory: "0x420DD381b31aEf6683db6B902084cB0FFECe40Da",
+    },
+    ethUsdFeed: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70",
+    assets: [
+      { symbol: "USDC", address: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913", decimals: 6, stable: true },
+      { symbol: "USDbC", address: "0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca", decimals: 6, stable: true },
+      { symbol: "cbBTC", address: "0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf", decimals: 8, stable: false },
+    ],
+    explorerTxUrl: "https://basescan.org/tx/{hash}",
+    chartUrl: "https://dexscreener.com/base/{token}",
+  },
+  ethereum: {
+    key: "ethereum",
+    name: "Ethereum",
+    chainId: 1,
+    weth: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+    routers: [
+      "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad",
+      "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+      "0x1111111254eeb25477b68fb85ed929f73a960582",
+      "0x111111125421ca6dc452d289314280a0f8842a65",
+      "0xdef1c0ded9bec7f1a1670819833240f027b25eff",
+    ],
+    quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+    swapRouter02: "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+    ethUsdFeed: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+    assets: [
+      { symbol: "USDC", address: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48", decimals: 6, stable: true },
+      { symbol: "USDT", address: "0xdac17f958d2ee523a2206206994597c13d831ec7", decimals: 6, stable: true },
+      { symbol: "cbBTC", address: "0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf", decimals: 8, stable: false },
+      { symbol: "WBTC", address: "0x2260fac5e5542a773aa44fbcfedf7c193bc2c599", decimals: 8, stable: false },
+    ],
+    explorerTxUrl: "https://etherscan.io/tx/{hash}",
+    chartUrl: "https://dexscreener.com/ethereum/{token}",
+  },
+  arbitrum: {
+    key: "arbitrum",
+    name: "Arbitrum",
+    chainId: 42161,
+    weth: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+    routers: [
+      "0x5e325eda8064b456f4781070c0738d849c824258",
+      "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+      "0x1111111254eeb25477b68fb85ed929f73a960582",
+      "0x111111125421ca6dc452d289314280a0f8842a65",
+    ],
+    quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+    swapRouter02: "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+    ethUsdFeed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+    assets: [
+      { symbol: "USDC", address: "0xaf88d065e77c8cc2239327c5edb3a432268e5831", decimals: 6, stable: true },
+      { symbol: "USDC.e", address: "0xff970a61a04b1ca14834a43f5de4533ebddb5cc8", decimals: 6, stable: true },
+      { symbol: "WBTC", address: "0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f", decimals: 8, stable: false },
+    ],
+    explorerTxUrl: "https://arbiscan.io/tx/{hash}",
+    chartUrl: "https://dexscreener.com/arbitrum/{token}",
+  },
+  optimism: {
+    key: "optimism",
+    name: "Optimism",
+    chainId: 10,
+    weth: "0x4200000000000000000000000000000000000006",
+    routers: [
+      "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+      "0x1111111254eeb25477b68fb85ed929f73a960582",
+      "0x111111125421ca6dc452d289314280a0f8842a65",
+    ],
+    quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+    swapRouter02: "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45",
+    ethUsdFeed: "0x13e3Ee699D1909E989722E753853AE30b17e08c5",
+    assets: [
+      { symbol: "USDC", address: "0x0b2c639c533813f4aa9d7837caf62653d097ff85", decimals: 6, stable: true },
+    ],
+    explorerTxUrl: "https://optimistic.etherscan.io/tx/{hash}",
+    chartUrl: "https://dexscreener.com/optimism/{token}",
+  },
+};
+
+export const DEFAULT_CHAIN = "base";
+
+// Variáveis antigas (só Base) continuam valendo como fallback
+const BASE_LEGACY_ENV: Record<string, string> = {
+  HTTP_URL: "ALCHEMY_HTTP_URL",
+  WS_URL: "ALCHEMY_WS_URL",
+  PENDING_WS_URL: "PENDING_WS_URL",
+  WETH_ADDRESS: "WETH_ADDRESS",
+  QUOTER_V2_ADDRESS: "QUOTER_V2_ADDRESS",
+};
+
+// <CHAIN>_<SUFFIX>, ex: chainEnv("arbitrum", "HTTP_URL") → ARBITRUM_HTTP_URL
+export function chainEnv(key: string, suffix: string): string | undefined {
+  const value = process.env[`${key.toUpperCase()}_${suffix}`];
+  if (value) return value;
+  return key === DEFAULT_CHAIN && BASE_LEGACY_ENV[suffix] ? process.env[BASE_LEGACY_ENV[suffix]] || undefined : undefined;
+}
+
+function buildChain(def: ChainDefinition): ChainConfig {
+  const httpUrl = chainEnv(def.key, "HTTP_URL");
+  const wsUrl = chainEnv(def.key, "WS_URL");
+  if (!httpUrl || !wsUrl) {
+    throw new Error(`Chain ${def.key}: defina ${def.key.toUpperCase()}_HTTP_URL e ${def.key.toUpperCase()}_WS_URL`);
+  }
+  return {
+    ...def,
+    weth: (chainEnv(def.key, "WETH_ADDRESS") ?? def.weth).toLowerCase(),
+    quoterV2: chainEnv(def.key, "QUOTER_V2_ADDRESS") ?? def.quoterV2,
+    httpUrl,
+    wsUrl,
+    pendingWsUrl: chainEnv(def.key, "PENDING_WS_URL"),
+  };
+}
+
+let enabledChains: ChainConfig[] | null = null;
+
+export function getChains(): ChainConfig[] {
+  if (!enabledChains) {
+    const keys = (process.env.CHAINS ?? DEFAULT_CHAIN).split(",").map((k) => k.trim().toLowerCase()).filter(Boolean);
+    enabledChains = keys.map((key) => {
+      const def = REGISTRY[key];
+      if (!def) throw new Error(`CHAINS: chain desconhecida "${key}" (conhecidas: ${Object.keys(REGISTRY).join(", ")})`);
+      return buildChain(def);
+    });
+  }
+  return enabledChains;
+}
+
+export function getChain(key?: string): ChainConfig {
+  const chains = getChains();
+  if (!key) return chains[0];
+  const chain = chains.find((c) => c.key === key);
+  if (!chain) throw new Error(`Chain ${key} não está habilitada em CHAINS`);
+  return chain;
+}
+
+// Um JsonRpcProvider por chain, compartilhado (bot, venues, monitor)
+const providers = new Map<string, ethers.JsonRpcProvider>();
+
+export function getProvider(chain: ChainConfig): ethers.JsonRpcProvider {
+  let provider = providers.get(chain.key);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(chain.httpUrl, chain.chainId, { staticNetwork: true });
+    providers.set(chain.key, provider);
+  }
+  return provider;
+}
+
+export function isChainEnabled(key: string): boolean {
+  return getChains().some((c) => c.key === key);
+}
+
+// Definição da chain sem exigir URLs (backtest, links de posições antigas)
+export function getChainDefinition(key: string): ChainDefinition | undefined {
+  return REGISTRY[key];
+}
+
+export function txUrl(chainKey: string | undefined, hash: string): string {
+  const def = REGISTRY[chainKey ?? DEFAULT_CHAIN] ?? REGISTRY[DEFAULT_CHAIN];
+  return def.explorerTxUrl.replace("{hash}", hash);
+}
+
+export function tokenChartUrl(chainKey: string | undefined, token: string): string {
+  const def = REGISTRY[chainKey ?? DEFAULT_CHAIN] ?? REGISTRY[DEFAULT_CHAIN];
+  return def.chartUrl.replace("{token}", token);
+}
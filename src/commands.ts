@@ -0,0 +1,237 @@
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { getSetting, setSetting } from "./db";
+import { isPaused, setPaused, pauseReason } from "./control";
+import { getProfiles, getEnabledWallets, addProfile, removeProfile, isValidAddress, walletLabel, DRY_RUN } from "./config";
+import { getAllPositions } from "./positions";
+import { summarizePnl, getUnrealizedPnl } from "./ledger";
+import { getAllWhaleStats, formatDuration } from "./analytics";
+import { isTelegramEnabled, getDefaultChatId, getUpdates, sendTo, answerCallback, escapeHtml } from "./telegram";
+import { getChains, isChainEnabled } from "./chains";
+
+// ─────────────────────────────────────────────
+// BOT DE COMANDOS DO TELEGRAM (long polling)
+// ─────────────────────────────────────────────
+// Só responde aos chats em TELEGRAM_ADMIN_CHAT_IDS (padrão: TELEGRAM_CHAT_ID).
+
+export interface CommandHandlers {
+  walletAddress: string;
+  getEthBalance(chain: string): Promise<bigint>;
+  // Vende `fraction` de todas as posições do token (só na `chain`, se informada); retorna um resumo em texto
+  sellToken(token: string, fraction: number, reason: string, chain?: string): Promise<string>;
+  sellPositionById(positionId: string, fraction: number, reason: string): Promise<string>;
+  statusLines(): string[];
+}
+
+const POLL_TIMEOUT_SEC = 30;
+
+const HELP = [
+  `🤖 <b>Comandos</b>`,
+  ``,
+  `/status — estado do bot`,
+  `/positions — posições abertas com PnL`,
+  `/pnl — PnL realizado e não realizado`,
+  `/whales — desempenho de cada whale e o custo de copiar`,
+  `/balance — saldo da wallet do bot em cada chain`,
+  `/pause | /resume — pausa/retoma compras`,
+  `/addwallet &lt;endereço&gt; [label] — segue uma whale`,
+  `/removewallet &lt;endereço&gt; — para de seguir`,
+  `/sell &lt;token&gt; [pct] [chain] — vende pct% (padrão 100) das posições do token`,
+  `/sellall — vende todas as posições`,
+].join("\n");
+
+function authorizedChats(): Set<string> {
+  const raw = process.env.TELEGRAM_ADMIN_CHAT_IDS ?? getDefaultChatId();
+  return new Set(raw.split(",").map((c) => c.trim()).filter(Boolean));
+}
+
+function fmtEth(v: number): string {
+  return `${v >= 0 ? "+" : ""}${v.toFixed(6)}`;
+}
+
+async function cmdStatus(h: CommandHandlers): Promise<string> {
+  const reason = pauseReason();
+  return [
+    `📡 <b>Status</b>`,
+    ``,
+    `${isPaused() ? `⏸️ Compras pausadas (${escapeHtml(reason ?? "manual")})` : "▶️ Copiando compras"}${DRY_RUN ? " — modo paper" : ""}`,
+    `👛 Whales ativas: ${getEnabledWallets().length}/${getProfiles().length}`,
+    `📌 Posições abertas: ${getAllPositions().length}`,
+    ...h.statusLines(),
+  ].join("\n");
+}
+
+async function cmdPositions(h: CommandHandlers): Promise<string> {
+  const open = await getUnrealizedPnl(h.walletAddress);
+  const legacy = getAllPositions().length - open.length;
+  if (open.length === 0 && legacy === 0) return `📭 Nenhuma posição aberta.`;
+
+  const lines = open.map((p) => {
+    const pnl = p.pnlEth === null ? "sem cotação" : `${fmtEth(p.pnlEth)} ETH (${((p.pnlEth / p.costEth) * 100).toFixed(1)}%)`;
+    const chain = getChains().length > 1 ? ` (${p.chain})` : "";
+    return `• <code>${p.token}</code>${chain}\n  ${escapeHtml(walletLabel(p.whale))} — custo ${p.costEth.toFixed(6)} ETH → ${pnl}`;
+  });
+  if (legacy > 0) lines.push(`… e ${legacy} posição(ões) antigas sem quantidade registrada`);
+  return [`📌 <b>Posições abertas</b>`, ``, ...lines].join("\n");
+}
+
+async function cmdPnl(h: CommandHandlers): Promise<string> {
+  const { overall, byWhale } = summarizePnl();
+  const open = await getUnrealizedPnl(h.walletAddress);
+  const unrealized = open.reduce((acc, p) => acc + (p.pnlEth ?? 0), 0);
+  const whales = [...byWhale.entries()]
+    .sort((a, b) => b[1].realizedEth - a[1].realizedEth)
+    .map(([w, s]) => `• ${escapeHtml(walletLabel(w))}: ${fmtEth(s.realizedEth)} ETH (${s.buys} compras / ${s.sells} vendas)`);
+  return [
+    `📒 <b>PnL</b>`,
+    ``,
+    `✅ Realizado: <b>${fmtEth(overall.realizedEth)} ETH</b> (~$${overall.realizedUsd.toFixed(2)})`,
+    `⏳ Não realizado: <b>${fmtEth(unrealized)} ETH</b> (${open.length} posição(ões))`,
+    `⛽ Gas total: ${overall.gasEth.toFixed(6)} ETH`,
+    ...(whales.length ? [``, `Por whale:`, ...whales] : []),
+  ].join("\n");
+}
+
+function pct(v: number | null): string {
+  return v === null ? "—" : `${v >= 0 ? "+" : ""}${v.toFixed(1)}%`;
+}
+
+function cmdWhales(): string {
+  const stats = getAllWhaleStats().sort((a, b) => (b.avgReturnPct ?? -Infinity) - (a.avgReturnPct ?? -Infinity));
+  if (stats.length === 0) return `📭 Nenhum trade de whale registrado ainda.`;
+  const enabled = new Set(getEnabledWallets());
+  const lines = stats.map((s) => [
+    `• ${enabled.has(s.whale) ? "" : "⏸️ "}<b>${escapeHtml(walletLabel(s.whale))}</b> — ${s.closed} trades fechados`,
+    `  win ${s.winRate === null ? "—" : `${s.winRate.toFixed(0)}%`} | média ${pct(s.avgReturnPct)} | hold ${formatDuration(s.avgHoldMs)} | DD ${s.maxDrawdownPct.toFixed(1)}pp`,
+    ...(s.copy.entries || s.copy.exits
+      ? [`  cópia: slip entrada ${pct(s.copy.entrySlippagePct)} / saída ${pct(s.copy.exitSlippagePct)} | atraso ${formatDuration(s.copy.latencyMs)} | nosso ${pct(s.copy.ourAvgReturnPct)}`]
+      : []),
+  ].join("\n"));
+  return [`🐋 <b>Whales</b>`, ``, ...lines].join("\n");
+}
+
+async function handleCommand(h: CommandHandlers, text: string): Promise<string> {
+  const [rawCmd, ...args] = text.trim().split(/\s+/);
+  const cmd = rawCmd.split("@")[0].toLowerCase();
+
+  switch (cmd) {
+    case "/start":
+    case "/help":
+      return HELP;
+    case "/status":
+      return cmdStatus(h);
+    case "/positions":
+      return cmdPositions(h);
+    case "/pnl":
+      return cmdPnl(h);
+    case "/whales":
+      return cmdWhales();
+    case "/balance": {
+      const lines: string[] = [];
+      for (const chain of getChains()) {
+        const balance = await h.getEthBalance(chain.key);
+        lines.push(`• ${chain.name}: <b>${parseFloat(ethers.formatEther(balance)).toFixed(6)} ETH</b>`);
+      }
+      return [`💰 Saldo${DRY_RUN ? " (paper)" : ""}:`, ...lines].join("\n");
+    }
+    case "/pause":
+      setPaused(true, "telegram");
+      return `⏸️ Compras pausadas. Vendas continuam sendo copiadas.`;
+    case "/resume":
+      setPaused(false);
+      return `▶️ Compras retomadas.`;
+    case "/addwallet": {
+      const [address, ...label] = args;
+      if (!address || !isValidAddress(address)) return `❌ Uso: /addwallet &lt;endereço&gt; [label]`;
+      const profile = addProfile(address, label.join(" ") || undefined);
+      return `➕ Seguindo <b>${escapeHtml(profile.label)}</b> (<code>${profile.address}</code>)`;
+    }
+    case "/removewallet": {
+      const [address] = args;
+      if (!address || !isValidAddress(address)) return `❌ Uso: /removewallet &lt;endereço&gt;`;
+      const label = walletLabel(address);
+      return removeProfile(address)
+        ? `➖ Deixou de seguir <b>${escapeHtml(label)}</b>. Posições abertas continuam no monitor.`
+        : `❌ Wallet não encontrada.`;
+    }
+    case "/sell": {
+      const [token, pctRaw, chainRaw] = args;
+      if (!token || !isValidAddress(token)) return `❌ Uso: /sell &lt;token&gt; [pct] [chain]`;
+      const pct = pctRaw ? parseFloat(pctRaw) : 100;
+      if (!(pct > 0 && pct <= 100)) return `❌ pct deve estar entre 0 e 100`;
+      const chain = chainRaw?.toLowerCase();
+      if (chain && !isChainEnabled(chain)) return `❌ Chain não habilitada: ${escapeHtml(chain)}`;
+      return h.sellToken(token.toLowerCase(), pct / 100, `manual via Telegram (${pct}%)`, chain);
+    }
+    case "/sellall": {
+      const pairs = [...new Set(getAllPositions().map(({ position }) => `${position.chain}:${position.token}`))];
+      if (pairs.length === 0) return `📭 Nenhuma posição aberta.`;
+      const results: string[] = [];
+      for (const pair of pairs) {
+        const [chain, token] = pair.split(":");
+        results.push(await h.sellToken(token, 1, "sellall via Telegram", chain));
+      }
+      return results.join("\n");
+    }
+    default:
+      return `❓ Comando desconhecido. /help para a lista.`;
+  }
+}
+
+async function handleCallback(h: CommandHandlers, data: string): Promise<string> {
+  const [action, positionId, pctRaw] = data.split(":");
+  if (action !== "sell" || !positionId) return "Ação desconhecida";
+  const pct = parseFloat(pctRaw ?? "100");
+  return h.sellPositionById(positionId, pct / 100, `botão do Telegram (${pct}%)`);
+}
+
+async function processUpdate(h: CommandHandlers, update: any, allowed: Set<string>): Promise<void> {
+  if (update.message?.text) {
+    const chat = String(update.message.chat.id);
+    if (!allowed.has(chat)) {
+      logger.warn(`🚫 Comando de chat não autorizado ignorado: ${chat}`);
+      return;
+    }
+    if (!update.message.text.startsWith("/")) return;
+    logger.info(`💬 Comando Telegram: ${update.message.text}`);
+    const reply = await handleCommand(h, update.message.text).catch((err) => `❌ Erro: ${escapeHtml(err.message)}`);
+    await sendTo(chat, reply);
+    return;
+  }
+
+  if (update.callback_query) {
+    const cq = update.callback_query;
+    const chat = String(cq.message?.chat?.id ?? "");
+    if (!allowed.has(chat)) {
+      await answerCallback(cq.id, "Não autorizado");
+      return;
+    }
+    await answerCallback(cq.id, "Processando...");
+    const reply = await handleCallback(h, cq.data ?? "").catch((err) => `❌ Erro: ${escapeHtml(err.message)}`);
+    await sendTo(chat, reply);
+  }
+}
+
+export function startCommandBot(handlers: CommandHandlers): void {
+  if (!isTelegramEnabled()) return;
+  const allowed = authorizedChats();
+  logger.info(`🤖 Bot de comandos do Telegram ativo (${allowed.size} chat(s) autorizado(s))`);
+
+  const loop = async () => {
+    let offset = parseInt(getSetting("telegram_update_offset") ?? "0", 10);
+    for (;;) {
+      try {
+        const updates = await getUpdates(offset, POLL_TIMEOUT_SEC);
+        for (const update of updates) {
+          offset = update.update_id + 1;
+          setSetting("telegram_update_offset", String(offset));
+          await processUpdate(handlers, update, allowed);
+        }
+      } catch (err: any) {
+        logger.error(`❌ Erro no polling do Telegram: ${err?.response?.data?.description || err.message}`);
+        await new Promise((r) => setTimeout(r, 5000));
+      }
+    }
+  };
+  loop();
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import { logger } from "./logger";
+import { SizingConfig } from "./sizing";
+import { ExitRules } from "./monitor";
+
+// ─────────────────────────────────────────────
+// MODO PAPER (DRY_RUN)
+// ─────────────────────────────────────────────
+// Cota de verdade na 0x mas nunca assina/envia transação. Posições e ledger
+// ficam em data/paper/ para não misturar com o estado real.
+export const DRY_RUN = process.env.DRY_RUN === "true";
+export const DATA_DIR = DRY_RUN ? "data/paper" : "data";
+
+// ─────────────────────────────────────────────
+// PERFIS POR WHALE
+// ─────────────────────────────────────────────
+export interface WalletProfile {
+  address: string;
+  label: string;
+  enabled: boolean;
+  copyBuys: boolean;
+  copySells: boolean;
+  maxSlippage?: number;
+  sizing?: Partial<SizingConfig>;
+  exits?: Partial<ExitRules>;
+  allowTokens: string[];
+  denyTokens: string[];
+  chains?: string[];      // chains onde a whale é seguida (vazio = todas as habilitadas)
+  weight: number;         // peso do voto da whale no modo consenso
+}
+
+type RawProfile = Partial<Omit<WalletProfile, "sizing">> & {
+  tradeAmountUsd?: number;
+  minTradeUsd?: number;
+  maxTradeUsd?: number;
+  sizing?: Partial<SizingConfig>;
+};
+
+interface RawConfigFile {
+  defaults?: RawProfile;
+  wallets: RawProfile[];
+}
+
+export const WALLETS_CONFIG_FILE = process.env.WALLETS_CONFIG ?? "config/wallets.json";
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function buildProfile(raw: RawProfile, defaults: RawProfile): WalletProfile {
+  const merged: RawProfile = { ...defaults, ...raw };
+  const address = merged.address!.trim().toLowerCase();
+
+  const sizing: Partial<SizingConfig> = { ...defaults.sizing, ...raw.sizing };
+  if (merged.tradeAmountUsd !== undefined) sizing.fixedUsd = merged.tradeAmountUsd;
+  if (merged.minTradeUsd !== undefined) sizing.minUsd = merged.minTradeUsd;
+  if (merged.maxTradeUsd !== undefined) sizing.maxUsd = merged.maxTradeUsd;
+
+  return {
+    address,
+    label: merged.label ?? shortAddress(address),
+    enabled: merged.enabled ?? true,
+    copyBuys: merged.copyBuys ?? true,
+    copySells: merged.copySells ?? true,
+    maxSlippage: merged.maxSlippage,
+    sizing: Object.keys(sizing).length > 0 ? sizing : undefined,
+    exits: defaults.exits || raw.exits ? { ...defaults.exits, ...raw.exits } : undefined,
+    allowTokens: (merged.allowTokens ?? []).map((t) => t.toLowerCase()),
+    denyTokens: (merged.denyTokens ?? []).map((t) => t.toLowerCase()),
+    chains: merged.chains?.map((c) => c.toLowerCase()),
+    weight: merged.weight ?? 1,
+  };
+}
+
+// Sem arquivo de config: monta perfis a partir de TARGET_WALLETS (+ WALLET_SIZE_CAPS)
+function rawConfigFromEnv(): RawConfigFile {
+  const caps = new Map<string, { minTradeUsd?: number; maxTradeUsd?: number }>();
+  for (const entry of (process.env.WALLET_SIZE_CAPS ?? "").split(",")) {
+    const [wallet, min, max] = entry.trim().split(":");
+    if (!wallet) continue;
+    caps.set(wallet.toLowerCase(), {
+      minTradeUsd: parseFloat(min) || undefined,
+      maxTradeUsd: parseFloat(max) || undefined,
+    });
+  }
+
+  const wallets = (process.env.TARGET_WALLETS ?? "")
+    .split(",")
+    .map((w) => w.trim())
+    .filter(Boolean)
+    .map((address) => ({ address, ...caps.get(address.toLowerCase()) }));
+  return { wallets };
+}
+
+function loadRawConfig(): RawConfigFile {
+  if (!fs.existsSync(WALLETS_CONFIG_FILE)) {
+    const raw = rawConfigFromEnv();
+    logger.info(`📄 ${WALLETS_CONFIG_FILE} não encontrado, usando TARGET_WALLETS (${raw.wallets.length} wallet(s))`);
+    return raw;
+  }
+
+  try {
+    const raw: RawConfigFile = JSON.parse(fs.readFileSync(WALLETS_CONFIG_FILE, "utf-8"));
+    raw.wallets = (raw.wallets ?? []).filter((w) => {
+      if (!w.address || !/^0x[0-9a-fA-F]{40}$/.test(w.address.trim())) {
+        logger.warn(`⚠️  Perfil ignorado, endereço inválido: ${JSON.stringify(w)}`);
+        return false;
+      }
+      return true;
+    });
+    logger.info(`📄 ${raw.wallets.length} perfil(is) carregado(s) de ${WALLETS_CONFIG_FILE}`);
+    return raw;
+  } catch (err: any) {
+    logger.error(`❌ Erro ao ler ${WALLETS_CONFIG_FILE}: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+const rawConfig = loadRawConfig();
+const profiles = new Map<string, WalletProfile>();
+
+function rebuildProfiles(): void {
+  profiles.clear();
+  for (const w of rawConfig.wallets) {
+    const profile = buildProfile(w, rawConfig.defaults ?? {});
+    profiles.set(profile.address, profile);
+  }
+}
+
+rebuildProfiles();
+
+// Grava as alterações feitas em runtime (Telegram/API). Escrita atômica: tmp + rename
+function saveRawConfig(): void {
+  const dir = WALLETS_CONFIG_FILE.includes("/") ? WALLETS_CONFIG_FILE.slice(0, WALLETS_CONFIG_FILE.lastIndexOf("/")) : ".";
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const tmp = `${WALLETS_CONFIG_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(rawConfig, null, 2));
+  fs.renameSync(tmp, WALLETS_CONFIG_FILE);
+}
+
+export function isValidAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address.trim());
+}
+
+// Adiciona (ou reabilita) uma whale. Retorna o perfil resultante
+export function addProfile(address: string, label?: string): WalletProfile {
+  const addr = address.trim().toLowerCase();
+  const existing = rawConfig.wallets.find((w) => w.address!.toLowerCase() === addr);
+  if (existing) {
+    existing.enabled = true;
+    if (label) existing.label = label;
+  } else {
+    rawConfig.wallets.push({ address: addr, ...(label ? { label } : {}) });
+  }
+  rebuildProfiles();
+  saveRawConfig();
+  logger.info(`➕ Wallet adicionada: ${addr}${label ? ` (${label})` : ""}`);
+  return profiles.get(addr)!;
+}
+
+export function removeProfile(address: string): boolean {
+  const addr = address.trim().toLowerCase();
+  const before = rawConfig.wallets.length;
+  rawConfig.wallets = rawConfig.wallets.filter((w) => w.address!.toLowerCase() !== addr);
+  if (rawConfig.wallets.length === before) return false;
+  rebuildProfiles();
+  saveRawConfig();
+  logger.info(`➖ Wallet removida: ${addr}`);
+  return true;
+}
+
+export function setProfileEnabled(address: string, enabled: boolean): boolean {
+  const addr = address.trim().toLowerCase();
+  const existing = rawConfig.wallets.find((w) => w.address!.toLowerCase() === addr);
+  if (!existing) return false;
+  existing.enabled = enabled;
+  rebuildProfiles();
+  saveRawConfig();
+  return true;
+}
+
+export function getProfile(address: string): WalletProfile | undefined {
+  return profiles.get(address.toLowerCase());
+}
+
+export function getProfiles(): WalletProfile[] {
+  return [...profiles.values()];
+}
+
+// Sem `chains` no perfil a whale é seguida em todas as chains habilitadas
+export function followsChain(profile: WalletProfile, chain: string): boolean {
+  return !profile.chains?.length || profile.chains.includes(chain);
+}
+
+export function getEnabledWallets(chain?: string): string[] {
+  return getProfiles()
+    .filter((p) => p.enabled && (!chain || followsChain(p, chain)))
+    .map((p) => p.address);
+}
+
+// Nome amigável para logs/telegram: label do perfil ou endereço encurtado
+export function walletLabel(address: string): string {
+  if (!isValidAddress(address)) return address;
+  return getProfile(address)?.label ?? shortAddress(address);
+}
+
+// Token permitido pelas listas allow/deny do perfil
+export function isTokenAllowed(profile: WalletProfile, token: string): boolean {
+  const t = token.toLowerCase();
+  if (profile.denyTokens.includes(t)) return false;
+  if (profile.allowTokens.length > 0 && !profile.allowTokens.includes(t)) return false;
+  return true;
+}
@@ -0,0 +1,66 @@
+import { logger } from "./logger";
+import { getProfile, walletLabel } from "./config";
+import { getAllPositions, updatePosition, Position } from "./positions";
+import { signalWhales } from "./signals";
+
+// ─────────────────────────────────────────────
+// MODO CONSENSO — compra só quando várias whales convergem no mesmo token
+// ─────────────────────────────────────────────
+// CONSENSUS_MODE=true         → compra só quando o score das whales que compraram o token em
+//                               CONSENSUS_WINDOW_SEC (padrão 600) chega a CONSENSUS_MIN_SCORE (padrão 2)
+// Score = soma dos `weight` dos perfis (padrão 1 por whale, cada whale conta uma vez).
+// Tamanho = sizing normal x score / CONSENSUS_MIN_SCORE, limitado a CONSENSUS_MAX_MULTIPLIER (padrão 3).
+// A posição fica em nome de "consensus" com as whales que dispararam a entrada; quando a
+// maioria delas vender o token, a posição inteira sai (saída antecipada).
+
+export const CONSENSUS_MODE = process.env.CONSENSUS_MODE === "true";
+export const CONSENSUS_WHALE = "consensus";
+
+const MIN_SCORE = parseFloat(process.env.CONSENSUS_MIN_SCORE ?? "2") || 2;
+const WINDOW_MS = parseFloat(process.env.CONSENSUS_WINDOW_SEC ?? "600") * 1000;
+const MAX_MULTIPLIER = parseFloat(process.env.CONSENSUS_MAX_MULTIPLIER ?? "3") || 3;
+
+// chain:token → quando o último consenso disparou (sinais anteriores já foram usados)
+const firedAt = new Map<string, number>();
+
+export interface ConsensusResult {
+  fire: boolean;
+  whales: string[];
+  score: number;
+  multiplier: number;
+}
+
+function key(chain: string, token: string): string {
+  return `${chain}:${token.toLowerCase()}`;
+}
+
+// Avalia o consenso depois de registrar o sinal da compra; se disparar, consome os sinais
+export function evaluateBuyConsensus(chain: string, token: string): ConsensusResult {
+  const whales = signalWhales(chain, token, "buy", WINDOW_MS, firedAt.get(key(chain, token)) ?? 0);
+  const score = whales.reduce((acc, w) => acc + (getProfile(w)?.weight ?? 1), 0);
+  const fire = score >= MIN_SCORE;
+  const multiplier = Math.min(score / MIN_SCORE, MAX_MULTIPLIER);
+  if (fire) firedAt.set(key(chain, token), Date.now() + 1);
+  logger.info(`🤝 Consenso em ${token}: score ${score}/${MIN_SCORE} (${whales.map(walletLabel).join(", ")})${fire ? ` — disparou, tamanho x${multiplier.toFixed(2)}` : ""}`);
+  return { fire, whales, score, multiplier };
+}
+
+// Registra a venda da whale nas posições de consenso que ela ajudou a abrir e devolve
+// as que já têm a maioria das whales fora (pra vender inteiras)
+export function consensusExits(chain: string, token: string, whale: string): { position: Position; exited: number; total: number }[] {
+  const tok = token.toLowerCase();
+  const addr = whale.toLowerCase();
+  const exits: { position: Position; exited: number; total: number }[] = [];
+
+  for (const { whale: owner, position } of getAllPositions()) {
+    if (owner !== CONSENSUS_WHALE || position.chain !== chain || position.token !== tok) continue;
+    const triggers = position.triggerWhales ?? [];
+    if (!triggers.includes(addr)) continue;
+
+    const exited = [...new Set([...(position.exitedWhales ?? []), addr])];
+    updatePosition(position.id, { exitedWhales: exited });
+    logger.info(`🤝 ${walletLabel(addr)} saiu de ${tok}: ${exited.length}/${triggers.length} whales do consenso fora`);
+    if (exited.length * 2 > triggers.length) exits.push({ position, exited: exited.length, total: triggers.length });
+  }
+  return exits;
+}
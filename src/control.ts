@@ -0,0 +1,22 @@
+import { logger } from "./logger";
+import { getSetting, setSetting } from "./db";
+
+// ─────────────────────────────────────────────
+// CONTROLE EM RUNTIME (pausa de compras)
+// ─────────────────────────────────────────────
+// Pausado = não copia compras novas. Vendas continuam sendo copiadas para
+// não deixar posição aberta. Persistido em settings, sobrevive a restart.
+
+export function isPaused(): boolean {
+  return getSetting("buying_paused") === "true";
+}
+
+export function setPaused(paused: boolean, reason = "manual"): void {
+  setSetting("buying_paused", String(paused));
+  setSetting("buying_paused_reason", paused ? reason : "");
+  logger.info(paused ? `⏸️  Compras pausadas (${reason})` : "▶️  Compras retomadas");
+}
+
+export function pauseReason(): string | null {
+  return isPaused() ? getSetting("buying_paused_reason") || "manual" : null;
+}
@@ -0,0 +1,281 @@
+import fs from "fs";
+import Database from "better-sqlite3";
+import { logger } from "./logger";
+import { DATA_DIR } from "./config";
+
+// ─────────────────────────────────────────────
+// PERSISTÊNCIA — SQLite (data/copytrade.db)
+// ─────────────────────────────────────────────
+// Cada migration roda uma vez, em transação, controlada por PRAGMA user_version.
+// Na primeira subida importa o positions.json / ledger.jsonl antigos.
+
+export const DB_FILE = `${DATA_DIR}/copytrade.db`;
+
+const MIGRATIONS: string[] = [
+  // 1 — schema inicial
+  `
+  CREATE TABLE positions (
+    id             TEXT PRIMARY KEY,
+    seq            INTEGER NOT NULL,
+    whale          TEXT NOT NULL,
+    token          TEXT NOT NULL,
+    whale_tx       TEXT NOT NULL,
+    my_tx          TEXT NOT NULL,
+    amount_usd     REAL NOT NULL,
+    timestamp      INTEGER NOT NULL,
+    token_amount   TEXT,
+    entry_eth      REAL,
+    peak_value_eth REAL,
+    tp_level       INTEGER
+  );
+  CREATE INDEX idx_positions_whale_token ON positions (whale, token, seq);
+
+  CREATE TABLE processed_txs (
+    hash         TEXT PRIMARY KEY,
+    processed_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE trades (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp    INTEGER NOT NULL,
+    side         TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    whale        TEXT NOT NULL,
+    token        TEXT NOT NULL,
+    token_amount TEXT NOT NULL,
+    eth          REAL NOT NULL,
+    gas_eth      REAL NOT NULL,
+    eth_usd      REAL NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    position_id  TEXT,
+    paper        INTEGER NOT NULL
+  );
+  CREATE INDEX idx_trades_position ON trades (position_id);
+  CREATE INDEX idx_trades_whale ON trades (whale);
+
+  CREATE TABLE settings (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+  // 2 — multi-chain: tudo que existia até aqui é da Base
+  `
+  ALTER TABLE positions ADD COLUMN chain TEXT NOT NULL DEFAULT 'base';
+  ALTER TABLE trades ADD COLUMN chain TEXT NOT NULL DEFAULT 'base';
+  `,
+  // 3 — txs enviadas e ainda não resolvidas (speed-up/cancelamento sobrevivem a restart)
+  `
+  CREATE TABLE pending_txs (
+    chain_id     INTEGER NOT NULL,
+    nonce        INTEGER NOT NULL,
+    kind         TEXT NOT NULL,
+    hashes       TEXT NOT NULL,
+    to_address   TEXT NOT NULL,
+    data         TEXT NOT NULL,
+    value        TEXT NOT NULL,
+    max_fee      TEXT NOT NULL,
+    priority_fee TEXT NOT NULL,
+    status       TEXT NOT NULL,
+    created_at   INTEGER NOT NULL,
+    updated_at   INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, nonce)
+  );
+  `,
+  // 4 — posições do modo consenso: whales que dispararam a entrada e as que já saíram
+  `
+  ALTER TABLE positions ADD COLUMN trigger_whales TEXT;
+  ALTER TABLE positions ADD COLUMN exited_whales TEXT;
+  `,
+  // 5 — todo swap detectado das whales (copiado ou não) e o vínculo dos nossos fills com a tx da whale
+  `
+  CREATE TABLE whale_trades (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp    INTEGER NOT NULL,
+    chain        TEXT NOT NULL,
+    whale        TEXT NOT NULL,
+    token        TEXT NOT NULL,
+    side         TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    token_amount TEXT NOT NULL,
+    value_usd    REAL NOT NULL,
+    eth_usd      REAL NOT NULL,
+    tx_hash      TEXT NOT NULL,
+    UNIQUE (tx_hash, token, side)
+  );
+  CREATE INDEX idx_whale_trades_whale ON whale_trades (whale, timestamp);
+  ALTER TABLE trades ADD COLUMN whale_tx TEXT;
+  `,
+  // 6 — preço do ETH opcional: sem cotação fresca o fill é gravado sem valor em USD (NULL).
+  // SQLite não remove NOT NULL com ALTER: recria as tabelas
+  `
+  CREATE TABLE trades_new (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp    INTEGER NOT NULL,
+    side         TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    whale        TEXT NOT NULL,
+    token        TEXT NOT NULL,
+    token_amount TEXT NOT NULL,
+    eth          REAL NOT NULL,
+    gas_eth      REAL NOT NULL,
+    eth_usd      REAL,
+    tx_hash      TEXT NOT NULL,
+    position_id  TEXT,
+    paper        INTEGER NOT NULL,
+    chain        TEXT NOT NULL DEFAULT 'base',
+    whale_tx     TEXT
+  );
+  INSERT INTO trades_new (id, timestamp, side, whale, token, token_amount, eth, gas_eth, eth_usd, tx_hash, position_id, paper, chain, whale_tx)
+    SELECT id, timestamp, side, whale, token, token_amount, eth, gas_eth, eth_usd, tx_hash, position_id, paper, chain, whale_tx FROM trades;
+  DROP TABLE trades;
+  ALTER TABLE trades_new RENAME TO trades;
+  CREATE INDEX idx_trades_position ON trades (position_id);
+  CREATE INDEX idx_trades_whale ON trades (whale);
+
+  CREATE TABLE whale_trades_new (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp    INTEGER NOT NULL,
+    chain        TEXT NOT NULL,
+    whale        TEXT NOT NULL,
+    token        TEXT NOT NULL,
+    side         TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+    token_amount TEXT NOT NULL,
+    value_usd    REAL,
+    eth_usd      REAL,
+    tx_hash      TEXT NOT NULL,
+    UNIQUE (tx_hash, token, side)
+  );
+  INSERT INTO whale_trades_new SELECT id, timestamp, chain, whale, token, side, token_amount, value_usd, eth_usd, tx_hash FROM whale_trades;
+  DROP TABLE whale_trades;
+  ALTER TABLE whale_trades_new RENAME TO whale_trades;
+  CREATE INDEX idx_whale_trades_whale ON whale_trades (whale, timestamp);
+  `,
+];
+
+function migrate(db: Database.Database): void {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+    logger.info(`🗄️  Migration ${version + 1} aplicada em ${DB_FILE}`);
+  }
+}
+
+// Importa o estado do formato antigo (JSON) uma única vez
+function importLegacyJson(db: Database.Database): void {
+  if (getSettingFrom(db, "legacy_json_imported")) return;
+
+  const positionsFile = `${DATA_DIR}/positions.json`;
+  const ledgerFile = `${DATA_DIR}/ledger.jsonl`;
+
+  db.transaction(() => {
+    if (fs.existsSync(positionsFile)) {
+      const obj: Record<string, any[]> = JSON.parse(fs.readFileSync(positionsFile, "utf-8"));
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO positions (id, seq, whale, token, whale_tx, my_tx, amount_usd, timestamp, token_amount, entry_eth, peak_value_eth, tp_level)
+        VALUES (@id, @seq, @whale, @token, @whaleTx, @myTx, @amountUsd, @timestamp, @tokenAmount, @entryEth, @peakValueEth, @tpLevel)
+      `);
+      let seq = 0;
+      for (const [whale, positions] of Object.entries(obj)) {
+        for (const p of positions) {
+          insert.run({
+            id: p.id ?? `legacy-${p.myTx}-${seq}`,
+            seq: seq++,
+            whale: whale.toLowerCase(),
+            token: p.token.toLowerCase(),
+            whaleTx: p.whaleTx,
+            myTx: p.myTx,
+            amountUsd: p.amountUsd,
+            timestamp: p.timestamp,
+            tokenAmount: p.tokenAmount ?? null,
+            entryEth: p.entryEth ?? null,
+            peakValueEth: p.peakValueEth ?? null,
+            tpLevel: p.tpLevel ?? null,
+          });
+        }
+      }
+      logger.info(`📥 ${seq} posição(ões) importada(s) de ${positionsFile}`);
+    }
+
+    if (fs.existsSync(ledgerFile)) {
+      const insert = db.prepare(`
+        INSERT INTO trades (timestamp, side, whale, token, token_amount, eth, gas_eth, eth_usd, tx_hash, position_id, paper)
+        VALUES (@timestamp, @side, @whale, @token, @tokenAmount, @eth, @gasEth, @ethUsd, @txHash, @positionId, @paper)
+      `);
+      const lines = fs.readFileSync(ledgerFile, "utf-8").split("\n").filter(Boolean);
+      for (const line of lines) {
+        const f = JSON.parse(line);
+        insert.run({ ethUsd: 0, positionId: null, ...f, paper: f.paper ? 1 : 0 });
+      }
+      logger.info(`📥 ${lines.length} fill(s) importado(s) de ${ledgerFile}`);
+    }
+
+    setSettingIn(db, "legacy_json_imported", String(Date.now()));
+  })();
+
+  // Mantém os arquivos antigos como backup, fora do caminho
+  for (const file of [positionsFile, ledgerFile]) {
+    if (fs.existsSync(file)) fs.renameSync(file, `${file}.imported`);
+  }
+}
+
+let instance: Database.Database | null = null;
+
+export function getDb(): Database.Database {
+  if (instance) return instance;
+  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+  const db = new Database(DB_FILE);
+  db.pragma("journal_mode = WAL");
+  db.pragma("synchronous = NORMAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  importLegacyJson(db);
+  instance = db;
+  return db;
+}
+
+export function closeDb(): void {
+  instance?.close();
+  instance = null;
+}
+
+// ─────────────────────────────────────────────
+// SETTINGS (chave/valor)
+// ─────────────────────────────────────────────
+function getSettingFrom(db: Database.Database, key: string): string | null {
+  const row = db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+function setSettingIn(db: Database.Database, key: string, value: string): void {
+  db.prepare("INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
+export function getSetting(key: string): string | null {
+  return getSettingFrom(getDb(), key);
+}
+
+export function setSetting(key: string, value: string): void {
+  setSettingIn(getDb(), key, value);
+}
+
+// ─────────────────────────────────────────────
+// TXS JÁ PROCESSADAS (dedupe sobrevive a restart)
+// ─────────────────────────────────────────────
+const PROCESSED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isTxProcessed(hash: string): boolean {
+  return Boolean(getDb().prepare("SELECT 1 FROM processed_txs WHERE hash = ?").get(hash.toLowerCase()));
+}
+
+// Retorna false se já estava marcada (outra rota chegou antes)
+export function markTxProcessed(hash: string): boolean {
+  const res = getDb()
+    .prepare("INSERT OR IGNORE INTO processed_txs (hash, processed_at) VALUES (?, ?)")
+    .run(hash.toLowerCase(), Date.now());
+  return res.changes > 0;
+}
+
+export function pruneProcessedTxs(): void {
+  const res = getDb().prepare("DELETE FROM processed_txs WHERE processed_at < ?").run(Date.now() - PROCESSED_TTL_MS);
+  if (res.changes > 0) logger.info(`🧹 ${res.changes} tx(s) processada(s) antigas removidas`);
+}
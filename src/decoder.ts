@@ -1,41 +1,78 @@
 import { ethers } from "ethers";
+// Selectors sem fragment em ROUTERS (marcados abaixo) só são detectados: sem tokens no calldata,
+// o caminho por bloco identifica o swap pelo receipt
 const SWAP_SELECTORS: Record<string, string> = {
   // Uniswap V3 / Uniswap Universal Router
   "0x5ae401dc": "Uniswap V3 - multicall",
+  "0xac9650d8": "Uniswap V3 - multicall",
+  "0x1f0464d1": "Uniswap V3 - multicall",
   "0x24856bc3": "Uniswap V3 - execute",
   "0x3593564c": "Uniswap Universal Router - execute",
   "0x04e45aaf": "Uniswap V3 - exactInputSingle",
+  "0x5023b4df": "Uniswap V3 - exactOutputSingle",
   "0xdb3e2198": "Uniswap V3 - exactOutputSingle",
   "0xb858183f": "Uniswap V3 - exactInput",
   "0x09b81346": "Uniswap V3 - exactOutput",
   // Aerodrome
-  "0x8a657e67": "Aerodrome - swapExactTokensForTokens",
+  "0x8a657e67": "Aerodrome - swapExactTokensForTokens", // sem fragment
+  "0xcac88ea9": "Aerodrome - swapExactTokensForTokens",
+  "0x903638a4": "Aerodrome - swapExactETHForTokens",
+  "0xc6b7f1b6": "Aerodrome - swapExactTokensForETH",
+  "0x88cd821e": "Aerodrome - swapExactTokensForTokensSupportingFeeOnTransferTokens",
+  "0x3da5acba": "Aerodrome - swapExactETHForTokensSupportingFeeOnTransferTokens",
+  "0x12bc3aca": "Aerodrome - swapExactTokensForETHSupportingFeeOnTransferTokens",
   "0x38ed1739": "Aerodrome - swapExactTokensForTokens (v2)",
   "0x7ff36ab5": "Aerodrome - swapExactETHForTokens",
   "0x18cbafe5": "Aerodrome - swapExactTokensForETH",
   // 0x / Matcha
   "0xd9627aa4": "0x - sellToUniswap",
   "0x415565b0": "0x - transformERC20",
-  "0xf7fcd384": "0x - sellTokenForTokenToUniswapV3",
+  "0xf7fcd384": "0x - sellTokenForTokenToUniswapV3", // sem fragment
+  "0x6af479b2": "0x - sellTokenForTokenToUniswapV3",
+  "0x3598d8ab": "0x - sellEthForTokenToUniswapV3",
+  "0x803ba26d": "0x - sellTokenForEthToUniswapV3",
   // 1inch
   "0x7c025200": "1inch - swap",
+  "0x12aa3caf": "1inch - swap",
+  "0x07ed2379": "1inch - swap",
   "0xe449022e": "1inch - uniswapV3Swap",
   "0x2e95b6c8": "1inch - unoswap",
+  "0x0502b1c5": "1inch - unoswap",
   // GMGN / OKX DEX Router
-  "0xeffbec13": "GMGN/OKX - unxswapByOrderId",
-  "0x0b68e4e8": "GMGN/OKX - smartSwapByOrderId",
+  "0xeffbec13": "GMGN/OKX - unxswapByOrderId", // sem fragment
+  "0x9871efa4": "GMGN/OKX - unxswapByOrderId",
+  "0x08298b5a": "GMGN/OKX - unxswapTo",
+  "0x0b68e4e8": "GMGN/OKX - smartSwapByOrderId", // sem fragment
+  "0xb80c2f09": "GMGN/OKX - smartSwapByOrderId",
+  "0x03b87e5f": "GMGN/OKX - smartSwapTo",
+  "0x0d5f0e3b": "GMGN/OKX - uniswapV3SwapTo",
   "0x2e1a7d4d": "GMGN/OKX - withdrawETH",
-  "0xcae6a6b3": "GMGN/OKX - multicall",
-  "0x784e2685": "GMGN/OKX - swap",
+  "0xcae6a6b3": "GMGN/OKX - multicall", // sem fragment
+  "0x784e2685": "GMGN/OKX - swap", // sem fragment
 };
-const KNOWN_ROUTERS: Set<string> = new Set([
-  "0x4409921ae43a39a11d90f7b7f96cfd0b8093d9fc",
-  "0x77449ff075c0a385796da0762bcb46fd5cc884c6",
-  "0xcf77a3ba9a5ca399b7c97c74d54e5b1beb874e43",
-  "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad",
-  "0x1111111254eeb25477b68fb85ed929f73a960582",
-  "0x1985b39d5e55940f2e2b2ded79a23b9e5a25f4ff",
-].map(a => a.toLowerCase()));
+
+// ETH nativo, na convenção 0x/1inch/OKX
+export const ETH_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+// Hop de um router que só recebe endereços de pool (1inch unoswap/uniswapV3Swap, OKX unxswap)
+export interface PoolHop {
+  pool: string;
+  zeroForOne: boolean;
+}
+
+// Hop de uma rota Aerodrome (Route struct do Router v2)
+export interface AeroRoute {
+  from: string;
+  to: string;
+  stable: boolean;
+  factory: string;
+}
+
+// Rota exata usada pela whale (pools e fee tiers), pra replicar direto no router (replicate.ts)
+export type SwapRoute =
+  | { kind: "uniswap-v3"; path: string }   // path V3 no sentido tokenIn → tokenOut
+  | { kind: "aerodrome"; routes: AeroRoute[] };
+
 export interface SwapInfo {
   isSwap: boolean;
   protocol?: string;
@@ -43,11 +80,441 @@ export interface SwapInfo {
   tokenIn?: string;
   tokenOut?: string;
   amountIn?: bigint;
+  minAmountOut?: bigint;
+  recipient?: string;
+  // Preenchido quando tokenIn/tokenOut dependem dos pools: resolva com enrichSwap()
+  pools?: PoolHop[];
+  // Só quando a rota é de um único caminho V3 ou Aerodrome (sem split)
+  route?: SwapRoute;
+}
+
+type Decoded = Omit<SwapInfo, "isSwap" | "protocol" | "selector">;
+
+interface DecodeContext {
+  value: bigint;
+  from?: string;
+  to?: string;
+}
+
+const ROUTE = "(address from, address to, bool stable, address factory)[] routes";
+// Route[] como o ethers decodifica: tupla com acesso por posição e por nome
+type RouteTuple = [string, string, boolean, string] & { from: string; to: string; stable: boolean; factory: string };
+const BASE_REQUEST = "(uint256 fromToken, address toToken, uint256 fromTokenAmount, uint256 minReturnAmount, uint256 deadLine) baseRequest";
+const OKX_BATCHES = "uint256[] batchesAmount, (address[] mixAdapters, address[] assetTo, uint256[] rawData, bytes[] extraData, uint256 fromToken)[][] batches, (uint256 pathIndex, address payer, address fromToken, address toToken, uint256 fromTokenAmountMax, uint256 toTokenAmountMax, uint256 salt, uint256 deadLine, bool isPushOrder, bytes extension)[] extraData";
+
+const ROUTERS = new ethers.Interface([
+  // Uniswap SwapRouter02 / SwapRouter
+  "function multicall(uint256 deadline, bytes[] data)",
+  "function multicall(bytes[] data)",
+  "function multicall(bytes32 previousBlockhash, bytes[] data)",
+  "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)",
+  "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)",
+  "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)",
+  "function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)",
+  "function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)",
+  "function unwrapWETH9(uint256 amountMinimum, address recipient)",
+  "function unwrapWETH9(uint256 amountMinimum)",
+  // Universal Router
+  "function execute(bytes commands, bytes[] inputs, uint256 deadline)",
+  "function execute(bytes commands, bytes[] inputs)",
+  // Aerodrome (Route[]) e routers estilo Uniswap V2 (address[])
+  `function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  `function swapExactETHForTokens(uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  `function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  `function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  `function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  `function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, ${ROUTE}, address to, uint256 deadline)`,
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  // 0x Exchange Proxy
+  "function sellToUniswap(address[] tokens, uint256 sellAmount, uint256 minBuyAmount, bool isSushi)",
+  "function transformERC20(address inputToken, address outputToken, uint256 inputTokenAmount, uint256 minOutputTokenAmount, (uint32 deploymentNonce, bytes data)[] transformations)",
+  "function sellTokenForTokenToUniswapV3(bytes encodedPath, uint256 sellAmount, uint256 minBuyAmount, address recipient)",
+  "function sellEthForTokenToUniswapV3(bytes encodedPath, uint256 minBuyAmount, address recipient)",
+  "function sellTokenForEthToUniswapV3(bytes encodedPath, uint256 sellAmount, uint256 minBuyAmount, address recipient)",
+  // 1inch (v4, v5, v6)
+  "function swap(address caller, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags, bytes permit) desc, bytes data)",
+  "function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes permit, bytes data)",
+  "function swap(address executor, (address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes data)",
+  "function uniswapV3Swap(uint256 amount, uint256 minReturn, uint256[] pools)",
+  "function unoswap(address srcToken, uint256 amount, uint256 minReturn, bytes32[] pools)",
+  "function unoswap(address srcToken, uint256 amount, uint256 minReturn, uint256[] pools)",
+  // OKX DEX Router (usado pelo GMGN)
+  "function unxswapByOrderId(uint256 srcToken, uint256 amount, uint256 minReturn, bytes32[] pools)",
+  "function unxswapTo(uint256 srcToken, uint256 amount, uint256 minReturn, address receiver, bytes32[] pools)",
+  "function uniswapV3SwapTo(uint256 receiver, uint256 amount, uint256 minReturn, uint256[] pools)",
+  `function smartSwapByOrderId(uint256 orderId, ${BASE_REQUEST}, ${OKX_BATCHES})`,
+  `function smartSwapTo(uint256 orderId, address receiver, ${BASE_REQUEST}, ${OKX_BATCHES})`,
+  // WETH
+  "function withdraw(uint256 wad)",
+]);
+
+const UR_COMMAND_ABI: Record<number, string[]> = {
+  0x00: ["address", "uint256", "uint256", "bytes", "bool"],   // V3_SWAP_EXACT_IN
+  0x01: ["address", "uint256", "uint256", "bytes", "bool"],   // V3_SWAP_EXACT_OUT
+  0x04: ["address", "address", "uint256"],                    // SWEEP
+  0x08: ["address", "uint256", "uint256", "address[]", "bool"], // V2_SWAP_EXACT_IN
+  0x09: ["address", "uint256", "uint256", "address[]", "bool"], // V2_SWAP_EXACT_OUT
+  0x0b: ["address", "uint256"],                               // WRAP_ETH
+  0x0c: ["address", "uint256"],                               // UNWRAP_WETH
+};
+const UR_COMMAND_MASK = 0x3f;
+const UR_CONTRACT_BALANCE = 1n << 255n;
+
+// Masks dos pools em 1inch/OKX
+const REVERSE_MASK = 1n << 255n;     // unoswap/unxswap: swap token1 → token0
+const WETH_UNWRAP_V2_MASK = 1n << 254n; // unoswap/unxswap: desembrulha WETH no final
+const ONE_FOR_ZERO_MASK = 1n << 255n; // uniswapV3Swap: swap token1 → token0
+const WETH_WRAP_MASK = 1n << 254n;   // uniswapV3Swap: embrulha o ETH enviado
+const WETH_UNWRAP_V3_MASK = 1n << 253n;
+const ADDRESS_MASK = (1n << 160n) - 1n;
+
+const ZERO = ethers.ZeroAddress;
+
+function lower(addr: string): string {
+  return addr.toLowerCase();
+}
+
+function low160(value: bigint): string {
+  return lower(ethers.getAddress(ethers.toBeHex(value & ADDRESS_MASK, 20)));
+}
+
+// 0x0 e 0xEeee… significam ETH nativo nos agregadores
+function normToken(addr: string): string {
+  const a = lower(addr);
+  return a === ZERO ? ETH_ADDRESS : a;
+}
+
+// Uniswap usa address(1) = msg.sender e address(2) = o próprio router
+function resolveRecipient(addr: string, ctx: DecodeContext): string {
+  const a = lower(addr);
+  if (a === "0x0000000000000000000000000000000000000001" || a === ZERO) return ctx.from ? lower(ctx.from) : a;
+  if (a === "0x0000000000000000000000000000000000000002") return ctx.to ? lower(ctx.to) : a;
+  return a;
 }
+
+// Path V3: token (20) | fee (3) | token (20) | ...
+export function decodeV3Path(path: string): string[] {
+  const bytes = ethers.getBytes(path);
+  const tokens: string[] = [];
+  for (let i = 0; i + 20 <= bytes.length; i += 23) {
+    tokens.push(lower(ethers.hexlify(bytes.slice(i, i + 20))));
+  }
+  return tokens;
+}
+
+export function encodeV3Path(tokens: string[], fees: number[]): string {
+  const types = tokens.flatMap((_, i) => (i < fees.length ? ["address", "uint24"] : ["address"]));
+  const values = tokens.flatMap((t, i) => (i < fees.length ? [t, fees[i]] : [t]));
+  return ethers.solidityPacked(types, values);
+}
+
+// exactOutput codifica o path invertido (tokenOut primeiro): desinverte pra tokenIn → tokenOut
+function reverseV3Path(path: string): string {
+  const bytes = ethers.getBytes(path);
+  const tokens: string[] = [];
+  const fees: number[] = [];
+  for (let i = 0; i + 20 <= bytes.length; i += 23) {
+    tokens.push(ethers.hexlify(bytes.slice(i, i + 20)));
+    if (i + 23 <= bytes.length) fees.push(Number(ethers.toBigInt(bytes.slice(i + 20, i + 23))));
+  }
+  return encodeV3Path(tokens.reverse(), fees.reverse());
+}
+
+function poolHops(pools: readonly (string | bigint)[], reverseMask: bigint): PoolHop[] {
+  return pools.map((raw) => {
+    const v = BigInt(raw);
+    return { pool: low160(v), zeroForOne: (v & reverseMask) === 0n };
+  });
+}
+
+function decodeUniversalRouter(commands: string, inputs: readonly string[], ctx: DecodeContext): Decoded {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const ops = ethers.getBytes(commands);
+
+  let tokenIn: string | undefined;
+  let tokenOut: string | undefined;
+  let amountIn = 0n;
+  let minAmountOut = 0n;
+  let recipient: string | undefined;
+  let wrapped = false;
+  let route: SwapRoute | undefined;
+  let legs = 0;
+
+  for (let i = 0; i < ops.length && i < inputs.length; i++) {
+    const type = ops[i] & UR_COMMAND_MASK;
+    const abi = UR_COMMAND_ABI[type];
+    if (!abi) continue;
+    const args = coder.decode(abi, inputs[i]);
+
+    if (type === 0x0b) {
+      wrapped = true;
+      continue;
+    }
+    if (type === 0x0c) {
+      tokenOut = ETH_ADDRESS;
+      recipient = resolveRecipient(args[0], ctx);
+      if (args[1] > 0n) minAmountOut = args[1];
+      continue;
+    }
+    if (type === 0x04) {
+      if (tokenOut && normToken(args[0]) === tokenOut) recipient = resolveRecipient(args[1], ctx);
+      continue;
+    }
+
+    let path: string[];
+    let inAmount: bigint;
+    let outAmount: bigint;
+    legs++;
+    if (type === 0x00) route = { kind: "uniswap-v3", path: args[3] };
+    if (type === 0x01) route = { kind: "uniswap-v3", path: reverseV3Path(args[3]) };
+    if (type === 0x00 || type === 0x08) {
+      path = type === 0x00 ? decodeV3Path(args[3]) : args[3].map(lower);
+      inAmount = args[1];
+      outAmount = args[2];
+    } else {
+      // exact out: path V3 vem invertido (tokenOut primeiro)
+      path = type === 0x01 ? decodeV3Path(args[3]).reverse() : args[3].map(lower);
+      outAmount = args[1];
+      inAmount = args[2];
+    }
+    if (path.length < 2) continue;
+
+    const hopIn = path[0];
+    const hopOut = path[path.length - 1];
+    if (!tokenIn) tokenIn = hopIn;
+    // Rotas divididas: soma as pernas com o mesmo par
+    if (hopIn === tokenIn && inAmount !== UR_CONTRACT_BALANCE) amountIn += inAmount;
+    if (hopOut !== tokenOut) minAmountOut = 0n;
+    minAmountOut += outAmount;
+    tokenOut = hopOut;
+    recipient = resolveRecipient(args[0], ctx);
+  }
+
+  if (!tokenIn || !tokenOut) return {};
+  if (wrapped) {
+    tokenIn = ETH_ADDRESS;
+    if (amountIn === 0n) amountIn = ctx.value;
+  }
+  return {
+    tokenIn,
+    tokenOut,
+    amountIn: amountIn > 0n ? amountIn : undefined,
+    minAmountOut,
+    recipient,
+    // Rotas divididas (várias pernas) ou V2 não são replicáveis
+    route: legs === 1 ? route : undefined,
+  };
+}
+
+// SwapRouter02.multicall: um swap + unwrapWETH9/refundETH opcionais
+function decodeMulticall(calls: readonly string[], ctx: DecodeContext): Decoded {
+  let result: Decoded = {};
+  for (const call of calls) {
+    const selector = call.slice(0, 10).toLowerCase();
+    if (selector === "0x49404b7c" || selector === "0x49616997") {
+      const args = ROUTERS.decodeFunctionData(ROUTERS.getFunction(selector)!, call);
+      result = {
+        ...result,
+        tokenOut: ETH_ADDRESS,
+        recipient: args.length > 1 ? resolveRecipient(args[1], ctx) : ctx.from ? lower(ctx.from) : undefined,
+      };
+      continue;
+    }
+    const decoded = decodeCall(selector, call, ctx);
+    if (!decoded?.tokenIn) continue;
+    if (!result.tokenIn) result = { ...decoded, ...result };
+    else result.route = undefined; // mais de um swap no multicall: rota dividida
+  }
+  return result;
+}
+
+function decodeCall(selector: string, data: string, ctx: DecodeContext): Decoded | null {
+  const fragment = ROUTERS.getFunction(selector);
+  if (!fragment) return null;
+  const args = ROUTERS.decodeFunctionData(fragment, data);
+  const name = fragment.name;
+  const ethIn = ctx.value > 0n;
+
+  switch (name) {
+    case "multicall":
+      return decodeMulticall(args[args.length - 1], ctx);
+
+    case "execute":
+      return decodeUniversalRouter(args[0], args[1], ctx);
+
+    case "exactInputSingle": {
+      const p = args[0];
+      return {
+        tokenIn: lower(p.tokenIn),
+        tokenOut: lower(p.tokenOut),
+        amountIn: p.amountIn,
+        minAmountOut: p.amountOutMinimum,
+        recipient: resolveRecipient(p.recipient, ctx),
+        route: { kind: "uniswap-v3", path: encodeV3Path([p.tokenIn, p.tokenOut], [Number(p.fee)]) },
+      };
+    }
+
+    case "exactOutputSingle": {
+      const p = args[0];
+      return {
+        tokenIn: lower(p.tokenIn),
+        tokenOut: lower(p.tokenOut),
+        amountIn: p.amountInMaximum,
+        minAmountOut: p.amountOut,
+        recipient: resolveRecipient(p.recipient, ctx),
+        route: { kind: "uniswap-v3", path: encodeV3Path([p.tokenIn, p.tokenOut], [Number(p.fee)]) },
+      };
+    }
+
+    case "exactInput":
+    case "exactOutput": {
+      const p = args[0];
+      const path = decodeV3Path(p.path);
+      if (name === "exactOutput") path.reverse();
+      return {
+        tokenIn: path[0],
+        tokenOut: path[path.length - 1],
+        amountIn: name === "exactInput" ? p.amountIn : p.amountInMaximum,
+        minAmountOut: name === "exactInput" ? p.amountOutMinimum : p.amountOut,
+        recipient: resolveRecipient(p.recipient, ctx),
+        route: { kind: "uniswap-v3", path: name === "exactInput" ? p.path : reverseV3Path(p.path) },
+      };
+    }
+
+    case "swapExactTokensForTokens":
+    case "swapExactETHForTokens":
+    case "swapExactTokensForETH":
+    case "swapExactTokensForTokensSupportingFeeOnTransferTokens":
+    case "swapExactETHForTokensSupportingFeeOnTransferTokens":
+    case "swapExactTokensForETHSupportingFeeOnTransferTokens": {
+      const hasRoutes = fragment.inputs.some((i) => i.name === "routes");
+      const routes: RouteTuple[] = hasRoutes ? args.routes : [];
+      const tokens: string[] = hasRoutes
+        ? [lower(routes[0].from), ...routes.map((r) => lower(r.to))]
+        : args.path.map(lower);
+      const fromEth = name.startsWith("swapExactETH");
+      const toEth = name.startsWith("swapExactTokensForETH");
+      return {
+        tokenIn: fromEth ? ETH_ADDRESS : tokens[0],
+        tokenOut: toEth ? ETH_ADDRESS : tokens[tokens.length - 1],
+        amountIn: fromEth ? ctx.value : args.amountIn,
+        minAmountOut: args.amountOutMin,
+        recipient: resolveRecipient(args.to, ctx),
+        route: hasRoutes
+          ? { kind: "aerodrome", routes: routes.map((r) => ({ from: lower(r.from), to: lower(r.to), stable: r.stable, factory: lower(r.factory) })) }
+          : undefined,
+      };
+    }
+
+    case "sellToUniswap":
+      return {
+        tokenIn: normToken(args.tokens[0]),
+        tokenOut: normToken(args.tokens[args.tokens.length - 1]),
+        amountIn: args.sellAmount,
+        minAmountOut: args.minBuyAmount,
+        recipient: ctx.from ? lower(ctx.from) : undefined,
+      };
+
+    case "transformERC20":
+      return {
+        tokenIn: normToken(args.inputToken),
+        tokenOut: normToken(args.outputToken),
+        amountIn: args.inputTokenAmount,
+        minAmountOut: args.minOutputTokenAmount,
+        recipient: ctx.from ? lower(ctx.from) : undefined,
+      };
+
+    case "sellTokenForTokenToUniswapV3":
+    case "sellEthForTokenToUniswapV3":
+    case "sellTokenForEthToUniswapV3": {
+      const path = decodeV3Path(args.encodedPath);
+      return {
+        tokenIn: name === "sellEthForTokenToUniswapV3" ? ETH_ADDRESS : path[0],
+        tokenOut: name === "sellTokenForEthToUniswapV3" ? ETH_ADDRESS : path[path.length - 1],
+        amountIn: name === "sellEthForTokenToUniswapV3" ? ctx.value : args.sellAmount,
+        minAmountOut: args.minBuyAmount,
+        recipient: resolveRecipient(args.recipient, ctx),
+        route: { kind: "uniswap-v3", path: args.encodedPath },
+      };
+    }
+
+    case "swap": {
+      const d = args.desc;
+      return {
+        tokenIn: normToken(d.srcToken),
+        tokenOut: normToken(d.dstToken),
+        amountIn: d.amount,
+        minAmountOut: d.minReturnAmount,
+        recipient: resolveRecipient(d.dstReceiver, ctx),
+      };
+    }
+
+    case "unoswap":
+    case "unxswapByOrderId":
+    case "unxswapTo": {
+      const pools = poolHops(args.pools, REVERSE_MASK);
+      const last = BigInt(args.pools[args.pools.length - 1] ?? 0);
+      const src = typeof args.srcToken === "bigint" ? low160(args.srcToken) : lower(args.srcToken);
+      return {
+        tokenIn: normToken(src),
+        tokenOut: (last & WETH_UNWRAP_V2_MASK) !== 0n ? ETH_ADDRESS : undefined,
+        amountIn: args.amount,
+        minAmountOut: args.minReturn,
+        recipient: name === "unxswapTo" ? lower(args.receiver) : ctx.from ? lower(ctx.from) : undefined,
+        pools,
+      };
+    }
+
+    case "uniswapV3Swap":
+    case "uniswapV3SwapTo": {
+      const pools = poolHops(args.pools, ONE_FOR_ZERO_MASK);
+      const first = BigInt(args.pools[0] ?? 0);
+      const last = BigInt(args.pools[args.pools.length - 1] ?? 0);
+      const wrap = name === "uniswapV3Swap" ? (first & WETH_WRAP_MASK) !== 0n : ethIn;
+      return {
+        tokenIn: wrap ? ETH_ADDRESS : undefined,
+        tokenOut: (last & WETH_UNWRAP_V3_MASK) !== 0n ? ETH_ADDRESS : undefined,
+        amountIn: args.amount,
+        minAmountOut: args.minReturn,
+        recipient: name === "uniswapV3SwapTo" ? low160(args.receiver) : ctx.from ? lower(ctx.from) : undefined,
+        pools,
+      };
+    }
+
+    case "smartSwapByOrderId":
+    case "smartSwapTo": {
+      const r = args.baseRequest;
+      return {
+        tokenIn: normToken(low160(r.fromToken)),
+        tokenOut: normToken(r.toToken),
+        amountIn: r.fromTokenAmount,
+        minAmountOut: r.minReturnAmount,
+        recipient: name === "smartSwapTo" ? lower(args.receiver) : ctx.from ? lower(ctx.from) : undefined,
+      };
+    }
+
+    case "withdraw":
+      // Só desembrulha WETH: tokenIn é o WETH do endereço chamado
+      return {
+        tokenIn: ctx.to ? lower(ctx.to) : undefined,
+        tokenOut: ETH_ADDRESS,
+        amountIn: args.wad,
+        minAmountOut: args.wad,
+        recipient: ctx.from ? lower(ctx.from) : undefined,
+      };
+  }
+  return null;
+}
+
 export function decodeSwap(tx: {
   data: string;
   value: bigint;
   to?: string;
+  from?: string;
+  // Routers conhecidos da chain (chains.ts): selector desconhecido num deles ainda conta como swap
+  knownRouters?: readonly string[];
 }): SwapInfo {
   if (!tx.data || tx.data.length < 10) {
     return { isSwap: false };
@@ -55,29 +522,41 @@ export function decodeSwap(tx: {
   const selector = tx.data.slice(0, 10).toLowerCase();
   const protocol = SWAP_SELECTORS[selector];
   if (protocol) {
-    if (selector === "0x04e45aaf") {
-      try {
-        const iface = new ethers.Interface([
-          "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) returns (uint256 amountOut)",
-        ]);
-        const decoded = iface.decodeFunctionData("exactInputSingle", tx.data);
-        const params = decoded[0];
-        return {
-          isSwap: true,
-          protocol,
-          selector,
-          tokenIn: params.tokenIn,
-          tokenOut: params.tokenOut,
-          amountIn: params.amountIn,
-        };
-      } catch {
-        return { isSwap: true, protocol, selector };
-      }
+    try {
+      const decoded = decodeCall(selector, tx.data, { value: tx.value, from: tx.from, to: tx.to });
+      return { isSwap: true, protocol, selector, ...decoded };
+    } catch {
+      return { isSwap: true, protocol, selector };
     }
-    return { isSwap: true, protocol, selector };
   }
-  if (tx.to && KNOWN_ROUTERS.has(tx.to.toLowerCase())) {
+  if (tx.to && tx.knownRouters?.includes(tx.to.toLowerCase())) {
     return { isSwap: true, protocol: "Known Router", selector };
   }
   return { isSwap: false };
 }
+
+const poolTokensCache = new Map<string, [string, string]>();
+
+async function poolTokens(pool: string, provider: ethers.Provider): Promise<[string, string]> {
+  const cached = poolTokensCache.get(pool);
+  if (cached) return cached;
+  const c = new ethers.Contract(pool, ["function token0() view returns (address)", "function token1() view returns (address)"], provider);
+  const [t0, t1] = await Promise.all([c.token0(), c.token1()]);
+  const tokens: [string, string] = [lower(t0), lower(t1)];
+  poolTokensCache.set(pool, tokens);
+  return tokens;
+}
+
+// Completa tokenIn/tokenOut de swaps que só trazem pools no calldata (2 eth_call por pool, com cache)
+export async function enrichSwap(swap: SwapInfo, provider: ethers.Provider): Promise<SwapInfo> {
+  if (!swap.pools?.length || (swap.tokenIn && swap.tokenOut)) return swap;
+  const first = swap.pools[0];
+  const last = swap.pools[swap.pools.length - 1];
+  const [in0, in1] = await poolTokens(first.pool, provider);
+  const [out0, out1] = await poolTokens(last.pool, provider);
+  return {
+    ...swap,
+    tokenIn: swap.tokenIn ?? (first.zeroForOne ? in0 : in1),
+    tokenOut: swap.tokenOut ?? (last.zeroForOne ? out1 : out0),
+  };
+}
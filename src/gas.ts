@@ -0,0 +1,329 @@
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { getDb } from "./db";
+import { getEthPrice, lastEthPrice } from "./price";
+import { submitSignedTx } from "./submit";
+
+// ─────────────────────────────────────────────
+// GAS — estratégia EIP-1559, speed-up e cancelamento
+// ─────────────────────────────────────────────
+// Priority fee = percentil GAS_PRIORITY_PERCENTILE do eth_feeHistory dos últimos blocos.
+// Estratégia "aggressive" (padrão nas compras): percentil GAS_AGGRESSIVE_PERCENTILE
+// x GAS_AGGRESSIVE_MULTIPLIER e mais folga no maxFee. Tetos: GAS_MAX_FEE_GWEI e
+// GAS_MAX_TX_USD (custo máximo da tx no gas limit).
+// Tx pendente há GAS_REPLACE_AFTER_SEC é reenviada com o mesmo nonce e fee +GAS_BUMP_PCT,
+// até GAS_MAX_REPLACEMENTS vezes; depois disso vira uma auto-transferência de 0 ETH
+// (cancelamento) e, passado TX_TIMEOUT_SEC, a espera desiste com erro code TX_TIMEOUT.
+// Toda tx enviada fica em pending_txs: a que estourou o timeout continua 'pending' (o nonce
+// ainda pode minerar) até settlePendingTx resolver; no restart, o que ficou pendente é cancelado.
+// O envio do raw assinado (público, privado ou broadcast) fica em submit.ts.
+
+export type GasStrategy = "normal" | "aggressive";
+export type TxKind = "buy" | "sell" | "approve" | "cancel";
+
+const PRIORITY_PERCENTILE = parseFloat(process.env.GAS_PRIORITY_PERCENTILE ?? "50");
+const AGGRESSIVE_PERCENTILE = parseFloat(process.env.GAS_AGGRESSIVE_PERCENTILE ?? "90");
+const AGGRESSIVE_MULTIPLIER = parseFloat(process.env.GAS_AGGRESSIVE_MULTIPLIER ?? "2");
+const FEE_HISTORY_BLOCKS = 10;
+const MAX_FEE_GWEI = process.env.GAS_MAX_FEE_GWEI ? parseFloat(process.env.GAS_MAX_FEE_GWEI) : null;
+const MAX_TX_USD = process.env.GAS_MAX_TX_USD ? parseFloat(process.env.GAS_MAX_TX_USD) : null;
+const REPLACE_AFTER_MS = parseFloat(process.env.GAS_REPLACE_AFTER_SEC ?? "20") * 1000;
+const BUMP_PCT = Math.max(parseFloat(process.env.GAS_BUMP_PCT ?? "25"), 10); // nós exigem >= 10% pra aceitar o replace
+const MAX_REPLACEMENTS = parseInt(process.env.GAS_MAX_REPLACEMENTS ?? "3", 10);
+const CANCEL_STUCK = process.env.GAS_CANCEL_STUCK !== "false";
+const TX_TIMEOUT_MS = parseFloat(process.env.TX_TIMEOUT_SEC ?? "180") * 1000;
+const POLL_MS = 1500;
+const CANCEL_GAS_LIMIT = 21_000n;
+const FINISHED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STRATEGIES: Record<TxKind, GasStrategy> = {
+  buy: parseStrategy(process.env.GAS_BUY_STRATEGY, "aggressive"),
+  sell: parseStrategy(process.env.GAS_SELL_STRATEGY, "normal"),
+  approve: "normal",
+  cancel: "aggressive",
+};
+
+function parseStrategy(raw: string | undefined, fallback: GasStrategy): GasStrategy {
+  const value = (raw ?? fallback).toLowerCase();
+  return value === "aggressive" || value === "normal" ? value : fallback;
+}
+
+export interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function bump(value: bigint, pct: number): bigint {
+  return (value * BigInt(Math.round((100 + pct) * 100))) / 10_000n;
+}
+
+function maxOf(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function gwei(value: bigint): string {
+  return parseFloat(ethers.formatUnits(value, "gwei")).toFixed(4);
+}
+
+// Base fee do próximo bloco + priority fee no percentil da estratégia
+export async function suggestFees(provider: ethers.JsonRpcProvider, strategy: GasStrategy): Promise<Fees & { baseFee: bigint }> {
+  const percentile = strategy === "aggressive" ? AGGRESSIVE_PERCENTILE : PRIORITY_PERCENTILE;
+  let baseFee: bigint;
+  let priority: bigint;
+  try {
+    const history = await provider.send("eth_feeHistory", [ethers.toQuantity(FEE_HISTORY_BLOCKS), "latest", [percentile]]);
+    const baseFees: string[] = history.baseFeePerGas ?? [];
+    baseFee = BigInt(baseFees[baseFees.length - 1] ?? 0);
+    priority = median((history.reward ?? []).map((r: string[]) => BigInt(r[0] ?? 0)));
+  } catch {
+    // RPC sem eth_feeHistory: cai no que o provider sugerir
+    const fee = await provider.getFeeData();
+    const block = await provider.getBlock("latest");
+    baseFee = block?.baseFeePerGas ?? fee.gasPrice ?? 0n;
+    priority = fee.maxPriorityFeePerGas ?? 0n;
+  }
+  if (priority === 0n) priority = 1n;
+  if (strategy === "aggressive") priority = (priority * BigInt(Math.round(AGGRESSIVE_MULTIPLIER * 100))) / 100n;
+  const headroom = strategy === "aggressive" ? 3n : 2n;
+  return { baseFee, maxPriorityFeePerGas: priority, maxFeePerGas: baseFee * headroom + priority };
+}
+
+async function ethUsd(): Promise<number | null> {
+  return lastEthPrice() ?? (await getEthPrice().catch(() => null));
+}
+
+// Aplica GAS_MAX_FEE_GWEI / GAS_MAX_TX_USD; lança erro se o teto não cobre nem a base fee
+async function applyCaps(fees: Fees & { baseFee: bigint }, gasLimit: bigint): Promise<Fees> {
+  let cap: bigint | null = MAX_FEE_GWEI !== null ? ethers.parseUnits(MAX_FEE_GWEI.toString(), "gwei") : null;
+  if (MAX_TX_USD !== null) {
+    const price = await ethUsd();
+    if (price) {
+      const usdCap = ethers.parseEther((MAX_TX_USD / price).toFixed(18)) / gasLimit;
+      cap = cap === null || usdCap < cap ? usdCap : cap;
+    }
+  }
+  if (cap === null || fees.maxFeePerGas <= cap) return fees;
+  if (cap <= fees.baseFee) {
+    throw new Error(`Gas acima do teto: base fee ${gwei(fees.baseFee)} gwei > limite ${gwei(cap)} gwei`);
+  }
+  return { maxFeePerGas: cap, maxPriorityFeePerGas: fees.maxPriorityFeePerGas < cap - fees.baseFee ? fees.maxPriorityFeePerGas : cap - fees.baseFee };
+}
+
+// ── Tracker de txs pendentes (SQLite) ──
+
+interface PendingRow {
+  chain_id: number;
+  nonce: number;
+  kind: TxKind;
+  hashes: string;
+  to_address: string;
+  data: string;
+  value: string;
+  max_fee: string;
+  priority_fee: string;
+  status: string;
+  created_at: number;
+}
+
+function trackSent(chainId: number, nonce: number, kind: TxKind, tx: { to: string; data: string; value: bigint }, fees: Fees, hashes: string[]): void {
+  const now = Date.now();
+  getDb().prepare(`
+    INSERT INTO pending_txs (chain_id, nonce, kind, hashes, to_address, data, value, max_fee, priority_fee, status, created_at, updated_at)
+    VALUES (@chainId, @nonce, @kind, @hashes, @to, @data, @value, @maxFee, @priorityFee, 'pending', @now, @now)
+    ON CONFLICT(chain_id, nonce) DO UPDATE SET
+      kind = excluded.kind, hashes = excluded.hashes, to_address = excluded.to_address, data = excluded.data,
+      value = excluded.value, max_fee = excluded.max_fee, priority_fee = excluded.priority_fee,
+      status = 'pending', updated_at = excluded.updated_at
+  `).run({
+    chainId, nonce, kind, hashes: JSON.stringify(hashes), to: tx.to, data: tx.data, value: tx.value.toString(),
+    maxFee: fees.maxFeePerGas.toString(), priorityFee: fees.maxPriorityFeePerGas.toString(), now,
+  });
+}
+
+function trackStatus(chainId: number, nonce: number, status: string): void {
+  getDb().prepare("UPDATE pending_txs SET status = ?, updated_at = ? WHERE chain_id = ? AND nonce = ?").run(status, Date.now(), chainId, nonce);
+}
+
+export function getPendingTxs(chainId?: number): { chainId: number; nonce: number; kind: TxKind; hash: string; createdAt: number }[] {
+  const rows = getDb()
+    .prepare(`SELECT * FROM pending_txs WHERE status = 'pending' ${chainId === undefined ? "" : "AND chain_id = ?"} ORDER BY created_at`)
+    .all(...(chainId === undefined ? [] : [chainId])) as PendingRow[];
+  return rows.map((r) => {
+    const hashes: string[] = JSON.parse(r.hashes);
+    return { chainId: r.chain_id, nonce: r.nonce, kind: r.kind, hash: hashes[hashes.length - 1], createdAt: r.created_at };
+  });
+}
+
+// ── Envio com speed-up / cancelamento ──
+
+async function findReceipt(provider: ethers.JsonRpcProvider, hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+  for (const hash of hashes) {
+    const receipt = await provider.getTransactionReceipt(hash).catch(() => null);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+// Assina localmente e entrega pelo caminho configurado pro tipo de tx
+async function signAndSubmit(
+  signer: ethers.Wallet,
+  chainId: number,
+  kind: TxKind,
+  tx: { to: string; data: string; value: bigint; gasLimit: bigint },
+  nonce: number,
+  fees: Fees
+): Promise<string> {
+  const signed = await signer.signTransaction({ ...tx, nonce, type: 2, chainId, ...fees });
+  return submitSignedTx(chainId, kind, signed);
+}
+
+// Acompanha um nonce até minerar: reenvia com fee maior, cancela se continuar preso
+async function watchNonce(params: {
+  signer: ethers.Wallet;
+  chainId: number;
+  nonce: number;
+  kind: TxKind;
+  tx: { to: string; data: string; value: bigint; gasLimit: bigint };
+  fees: Fees;
+  hashes: string[];
+  startedAt: number;
+  cancelNow?: boolean;   // pula os speed-ups (restart, timeout)
+  timeoutMs?: number;
+}): Promise<ethers.TransactionReceipt> {
+  const { signer, chainId, nonce, kind } = params;
+  const provider = signer.provider as ethers.JsonRpcProvider;
+  const owner = await signer.getAddress();
+  const hashes = [...params.hashes];
+  let fees = params.fees;
+  let tx = params.tx;
+  let cancelling = kind === "cancel" && !params.cancelNow;
+  let replacements = params.cancelNow ? MAX_REPLACEMENTS : 0;
+  let lastSentAt = params.cancelNow ? 0 : Date.now();
+  const timeoutMs = params.timeoutMs ?? TX_TIMEOUT_MS;
+
+  while (true) {
+    const receipt = await findReceipt(provider, hashes);
+    if (receipt) {
+      // Auto-transferência = o cancelamento ganhou
+      const cancelled = receipt.to?.toLowerCase() === owner.toLowerCase();
+      trackStatus(chainId, nonce, cancelled ? "cancelled" : "mined");
+      if (cancelled) throw new Error(`tx ${kind} (nonce ${nonce}) cancelada após ficar presa`);
+      if (replacements > 0) logger.info(`🚀 Tx ${kind} (nonce ${nonce}) minerada após ${replacements} speed-up(s)`);
+      return receipt;
+    }
+
+    // Nonce consumido por uma tx que não é nossa (ex: enviada de outra ferramenta)
+    if ((await provider.getTransactionCount(owner, "latest").catch(() => 0)) > nonce) {
+      await new Promise((r) => setTimeout(r, POLL_MS));
+      const late = await findReceipt(provider, hashes);
+      if (late) continue;
+      trackStatus(chainId, nonce, "dropped");
+      throw new Error(`nonce ${nonce} consumido por outra tx`);
+    }
+
+    const now = Date.now();
+    // A linha fica 'pending': a tx segue no mempool e o nonce não está livre
+    if (now - params.startedAt > timeoutMs) {
+      throw Object.assign(new Error(`timeout: tx ${kind} (nonce ${nonce}) sem confirmação após ${Math.round(timeoutMs / 1000)}s`), { code: "TX_TIMEOUT" });
+    }
+
+    if (now - lastSentAt >= REPLACE_AFTER_MS && (replacements < MAX_REPLACEMENTS || (CANCEL_STUCK && !cancelling))) {
+      const cancel = replacements >= MAX_REPLACEMENTS;
+      const fresh = await suggestFees(provider, STRATEGIES[cancel ? "cancel" : kind]).catch(() => null);
+      const next: Fees = {
+        maxFeePerGas: maxOf(bump(fees.maxFeePerGas, BUMP_PCT), fresh?.maxFeePerGas ?? 0n),
+        maxPriorityFeePerGas: maxOf(bump(fees.maxPriorityFeePerGas, BUMP_PCT), fresh?.maxPriorityFeePerGas ?? 0n),
+      };
+      // Cancelamento custa 21k de gas: ignora os tetos pra liberar o nonce
+      const capped = cancel ? next : await applyCaps({ ...next, baseFee: fresh?.baseFee ?? 0n }, tx.gasLimit).catch(() => null);
+      if (capped && capped.maxFeePerGas >= bump(fees.maxFeePerGas, 10) && capped.maxPriorityFeePerGas >= bump(fees.maxPriorityFeePerGas, 10)) {
+        const replacement = cancel ? { to: owner, data: "0x", value: 0n, gasLimit: CANCEL_GAS_LIMIT } : tx;
+        try {
+          // Speed-up e cancelamento vão pelo mesmo caminho da original (privado continua privado)
+          const hash = await signAndSubmit(signer, chainId, kind, replacement, nonce, capped);
+          hashes.push(hash);
+          fees = capped;
+          tx = replacement;
+          cancelling = cancel;
+          trackSent(chainId, nonce, cancel ? "cancel" : kind, tx, fees, hashes);
+          logger.warn(
+            cancel
+              ? `🛑 Tx ${kind} (nonce ${nonce}) presa: cancelando com auto-transferência (${hash}, maxFee ${gwei(fees.maxFeePerGas)} gwei)`
+              : `⛽ Speed-up ${replacements + 1}/${MAX_REPLACEMENTS} da tx ${kind} (nonce ${nonce}): ${hash} (maxFee ${gwei(fees.maxFeePerGas)} gwei, tip ${gwei(fees.maxPriorityFeePerGas)} gwei)`
+          );
+        } catch (err: any) {
+          // "already known" / "nonce too low": a original pode ter acabado de minerar
+          logger.warn(`⚠️  Replace da tx ${kind} (nonce ${nonce}) falhou: ${err.shortMessage ?? err.message}`);
+        }
+      } else if (!cancel) {
+        logger.warn(`⚠️  Speed-up da tx ${kind} (nonce ${nonce}) bloqueado pelo teto de gas`);
+      }
+      if (cancel) cancelling = true;
+      else replacements++;
+      lastSentAt = Date.now();
+    }
+
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  }
+}
+
+// Assina e envia com o nonce dado, acompanhando até minerar (ou lançar erro)
+export async function sendWithGasStrategy(params: {
+  signer: ethers.Wallet;
+  chainId: number;
+  nonce: number;
+  kind: TxKind;
+  tx: { to: string; data: string; value: bigint; gasLimit: bigint };
+}): Promise<ethers.TransactionReceipt> {
+  const { signer, chainId, nonce, kind, tx } = params;
+  const provider = signer.provider as ethers.JsonRpcProvider;
+  const strategy = STRATEGIES[kind];
+  const fees = await applyCaps(await suggestFees(provider, strategy), tx.gasLimit);
+  const hash = await signAndSubmit(signer, chainId, kind, tx, nonce, fees);
+  trackSent(chainId, nonce, kind, tx, fees, [hash]);
+  logger.info(`⛽ Tx ${kind} enviada (${strategy}): ${hash} — nonce ${nonce}, maxFee ${gwei(fees.maxFeePerGas)} gwei, tip ${gwei(fees.maxPriorityFeePerGas)} gwei`);
+  return watchNonce({ signer, chainId, nonce, kind, tx, fees, hashes: [hash], startedAt: Date.now() });
+}
+
+// Cancela a tx da linha e espera o nonce resolver: devolve o receipt se a original minerar antes,
+// lança erro se o cancelamento ganhar (ou outra tx consumir o nonce)
+function cancelAndWait(signer: ethers.Wallet, row: PendingRow, timeoutMs?: number): Promise<ethers.TransactionReceipt> {
+  const tx = { to: row.to_address, data: row.data, value: BigInt(row.value), gasLimit: row.kind === "cancel" ? CANCEL_GAS_LIMIT : 500_000n };
+  const fees = { maxFeePerGas: BigInt(row.max_fee), maxPriorityFeePerGas: BigInt(row.priority_fee) };
+  return watchNonce({
+    signer, chainId: row.chain_id, nonce: row.nonce, kind: row.kind, tx, fees, hashes: JSON.parse(row.hashes), startedAt: Date.now(), cancelNow: true, timeoutMs,
+  });
+}
+
+// Depois de um TX_TIMEOUT: sem esperar resolver, um retry com nonce novo poderia executar o
+// mesmo trade duas vezes. Fica no nonce até minerar (a original ou o cancelamento), sem timeout
+export async function settlePendingTx(signer: ethers.Wallet, chainId: number, nonce: number): Promise<ethers.TransactionReceipt> {
+  const row = getDb().prepare("SELECT * FROM pending_txs WHERE chain_id = ? AND nonce = ?").get(chainId, nonce) as PendingRow | undefined;
+  if (!row) throw new Error(`nonce ${nonce} não está em pending_txs`);
+  return cancelAndWait(signer, row, Infinity);
+}
+
+// No restart: txs que ficaram pendentes sem dono são canceladas (ou marcadas como mineradas).
+// 'timeout' é de versões que marcavam a tx ao desistir da espera: o nonce pode seguir preso
+export async function recoverPendingTxs(signer: ethers.Wallet, chainId: number): Promise<void> {
+  getDb().prepare("DELETE FROM pending_txs WHERE status NOT IN ('pending', 'timeout') AND updated_at < ?").run(Date.now() - FINISHED_TTL_MS);
+  const rows = getDb().prepare("SELECT * FROM pending_txs WHERE chain_id = ? AND status IN ('pending', 'timeout') ORDER BY nonce").all(chainId) as PendingRow[];
+  if (rows.length === 0) return;
+  logger.warn(`♻️  ${rows.length} tx(s) pendente(s) de antes do restart na chain ${chainId}`);
+
+  for (const row of rows) {
+    try {
+      // Sem o contexto do trade, a tx original não serve mais: vai direto pro cancelamento
+      const receipt = await cancelAndWait(signer, row);
+      logger.info(`✅ Tx ${row.kind} pendente (nonce ${row.nonce}) minerou: ${receipt.hash} — a reconciliação ajusta as posições`);
+    } catch (err: any) {
+      logger.warn(`⚠️  Tx ${row.kind} pendente (nonce ${row.nonce}): ${err.message}`);
+    }
+  }
+}
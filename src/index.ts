@@ -2,20 +2,40 @@ import "dotenv/config";
 import { ethers } from "ethers";
 import WebSocket from "ws";
 import { logger } from "./logger";
-import { decodeSwap } from "./decoder";
-import { executeCopyTrade, executeCopySell } from "./trader";
-import { initTelegram, notifyBotStarted, notifyBotStopped, notifyBuyExecuted, notifyBuyFailed, notifySellDetected, notifySellExecuted, notifySellFailed, notifyInsufficientBalance } from "./telegram";
+import { decodeSwap, enrichSwap, SwapInfo, SwapRoute } from "./decoder";
+import { classifySwapEvent, isEthToken, routedQuoteAmounts, SwapEvent, AssetAmount, ETH_ADDRESS } from "./swaps";
+import { isQuoteAsset, getQuoteAssets, getFundingAsset, quoteAssetUsd } from "./assets";
+import { getChains, getChain, getProvider, ChainConfig } from "./chains";
+import { executeCopyTrade, executeCopySell, TradeResult } from "./trader";
+import { getEthPrice, lastEthPrice } from "./price";
+import { recoverPendingTxs, getPendingTxs } from "./gas";
+import { submitModeFor, validateSubmitConfig } from "./submit";
+import { loadSizingConfig, getSizingConfig, computeTradeSize } from "./sizing";
+import { getProfile, getEnabledWallets, followsChain, isTokenAllowed, walletLabel, DRY_RUN } from "./config";
+import { addPosition, countPositions, getPositionsForToken, newPositionId, removePosition, updatePosition, getAllPositions, findPosition, Position } from "./positions";
+import { isPaused } from "./control";
+import { checkBuyRisk, checkLossLimit, riskSummary } from "./risk";
+import { checkEntryRules, priceMoveCheck } from "./rules";
+import { recordSignal } from "./signals";
+import { recordWhaleTrade, checkAutoDisable } from "./analytics";
+import { CONSENSUS_MODE, CONSENSUS_WHALE, evaluateBuyConsensus, consensusExits } from "./consensus";
+import { startCommandBot } from "./commands";
+import { startApiServer, ChainHealth } from "./api";
+import { getVenues } from "./venues";
+import { startReconciler } from "./reconciler";
+import { startPendingFeed, isMempoolEnabled, isPendingFeedConnected, PendingTx } from "./mempool";
+import { isTxProcessed, markTxProcessed, pruneProcessedTxs, closeDb } from "./db";
+import { recordFill, getPaperEthBalance, realizedForSell } from "./ledger";
+import { startPositionMonitor, ExitDecision } from "./monitor";
+import { initTelegram, notifyBotStarted, notifyBotStopped, notifyBuyExecuted, notifyBuyFailed, notifyBuySkipped, notifySellDetected, notifySellExecuted, notifySellFailed, notifyInsufficientBalance } from "./telegram";
 import fs from "fs";
 
 if (!fs.existsSync("logs")) fs.mkdirSync("logs");
 
+// ZEROX_API_KEY é opcional: sem ela o bot executa só pelos routers diretos (venues.ts)
 const REQUIRED_ENV = [
-  "ALCHEMY_WS_URL",
-  "ALCHEMY_HTTP_URL",
-  "ZEROX_API_KEY",
   "MY_WALLET_ADDRESS",
   "MY_PRIVATE_KEY",
-  "TARGET_WALLETS",
   "TRADE_AMOUNT_USD",
 ];
 for (const key of REQUIRED_ENV) {
@@ -25,188 +45,230 @@ for (const key of REQUIRED_ENV) {
   }
 }
 
-const TARGET_WALLETS: string[] = process.env
-  .TARGET_WALLETS!.split(",")
-  .map((w) => w.trim().toLowerCase());
+// URLs de RPC/WS são validadas por chain (chains.ts)
+let CHAINS: ChainConfig[];
+try {
+  CHAINS = getChains();
+} catch (err: any) {
+  logger.error(`❌ ${err.message}`);
+  process.exit(1);
+}
 
-const TRADE_AMOUNT_USD = parseFloat(process.env.TRADE_AMOUNT_USD!);
-const WETH = process.env.WETH_ADDRESS!.toLowerCase();
-const ETH_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+if (getEnabledWallets().length === 0) {
+  logger.error("❌ Nenhuma wallet alvo habilitada (config/wallets.json ou TARGET_WALLETS)");
+  process.exit(1);
+}
 
-const processedTxs = new Set<string>();
+const TRADE_AMOUNT_USD = parseFloat(process.env.TRADE_AMOUNT_USD!);
+const SIZING = loadSizingConfig();
+const WITHDRAWAL_TOPIC = ethers.id("Withdrawal(address,uint256)");
 
 // ─────────────────────────────────────────────
-// ESTRUTURA DE POSIÇÕES — FIFO por token
+// RUNTIME POR CHAIN — provider, signer e WS de blocos de cada chain habilitada
 // ─────────────────────────────────────────────
-interface Position {
-  token: string;
-  whaleTx: string;
-  myTx: string;
-  amountUsd: number;
-  timestamp: number;
-}
-
-const POSITIONS_FILE = "data/positions.json";
-
-function loadPositions(): Map<string, Position[]> {
-  try {
-    if (!fs.existsSync("data")) fs.mkdirSync("data");
-    if (!fs.existsSync(POSITIONS_FILE)) return new Map();
-    const raw = fs.readFileSync(POSITIONS_FILE, "utf-8");
-    const obj: Record<string, Position[]> = JSON.parse(raw);
-    const map = new Map<string, Position[]>();
-    for (const [whale, positions] of Object.entries(obj)) {
-      map.set(whale, positions);
-    }
-    logger.info(`📂 Posições carregadas do disco: ${JSON.stringify(obj)}`);
-    return map;
-  } catch {
-    logger.warn("⚠️  Não foi possível carregar posições do disco, iniciando zerado");
-    return new Map();
-  }
-}
-
-function savePositions(map: Map<string, Position[]>) {
-  try {
-    if (!fs.existsSync("data")) fs.mkdirSync("data");
-    const obj: Record<string, Position[]> = {};
-    for (const [whale, positions] of map.entries()) {
-      if (positions.length > 0) obj[whale] = positions;
-    }
-    fs.writeFileSync(POSITIONS_FILE, JSON.stringify(obj, null, 2));
-  } catch (err: any) {
-    logger.error(`❌ Erro ao salvar posições: ${err.message}`);
-  }
+interface ChainRuntime {
+  chain: ChainConfig;
+  provider: ethers.JsonRpcProvider;
+  signer: ethers.Wallet;
+  ws: WebSocket | null;
+  lastBlockNumber: number | null;
 }
 
-const openPositions: Map<string, Position[]> = loadPositions();
+const runtimes = new Map<string, ChainRuntime>();
+const startedAt = Date.now();
 
-function addPosition(whaleAddress: string, position: Position) {
-  const addr = whaleAddress.toLowerCase();
-  if (!openPositions.has(addr)) openPositions.set(addr, []);
-  openPositions.get(addr)!.push(position);
-  savePositions(openPositions);
-  logger.info(`📌 Posição registrada: ${position.token} (whale: ${addr}) [total: ${openPositions.get(addr)!.length}]`);
+function runtimeFor(chainKey: string): ChainRuntime | undefined {
+  return runtimes.get(chainKey);
 }
 
-// Remove a primeira posição do token (FIFO) e retorna ela
-function popPosition(whaleAddress: string, token: string): Position | null {
-  const addr = whaleAddress.toLowerCase();
-  const tok = token.toLowerCase();
-  const positions = openPositions.get(addr);
-  if (!positions) return null;
-  const idx = positions.findIndex(p => p.token === tok);
-  if (idx === -1) return null;
-  const [removed] = positions.splice(idx, 1);
-  savePositions(openPositions);
-  logger.info(`🗑️  Posição removida: ${tok} (whale: ${addr}) [restantes: ${positions.filter(p => p.token === tok).length}]`);
-  return removed;
+// Modo paper: saldo do token = soma das posições simuladas abertas na chain
+function paperTokenBalance(chain: string, token: string): bigint {
+  return getAllPositions()
+    .filter(({ position }) => position.chain === chain && position.token === token.toLowerCase())
+    .reduce((acc, { position }) => acc + BigInt(position.tokenAmount ?? "0"), 0n);
 }
 
-// Retorna todas as posições de um token específico
-function getPositionsForToken(whaleAddress: string, token: string): Position[] {
-  const addr = whaleAddress.toLowerCase();
-  const tok = token.toLowerCase();
-  return (openPositions.get(addr) ?? []).filter(p => p.token === tok);
+function isEth(rt: ChainRuntime, token: string): boolean {
+  return isEthToken(token, rt.chain.weth);
 }
 
-// Retorna tokens únicos com posição aberta
-function getUniqueTokens(whaleAddress: string): string[] {
-  const addr = whaleAddress.toLowerCase();
-  const positions = openPositions.get(addr) ?? [];
-  return [...new Set(positions.map(p => p.token))];
+function isFollowed(rt: ChainRuntime, from: string): boolean {
+  const profile = getProfile(from);
+  return Boolean(profile?.enabled && followsChain(profile, rt.chain.key));
 }
 
-// Conta quantas posições abertas tem de um token
-function countPositions(whaleAddress: string, token: string): number {
-  return getPositionsForToken(whaleAddress, token).length;
-}
-
-let httpProvider: ethers.JsonRpcProvider;
-let signer: ethers.Wallet;
-let ws: WebSocket;
-
-function isEth(token: string): boolean {
-  const t = token.toLowerCase();
-  return t === WETH || t === ETH_ADDRESS;
+// Delta de ETH nativo da whale no bloco (saldo depois - antes + taxa da tx).
+// Só confiável se essa for a única tx dela no bloco; senão volta null e o classificador estima pelos logs.
+async function nativeEthDelta(rt: ChainRuntime, receipt: ethers.TransactionReceipt, whale: string): Promise<bigint | null> {
+  const provider = rt.provider;
+  try {
+    const block = receipt.blockNumber;
+    const [nonceBefore, nonceAfter] = await Promise.all([
+      provider.getTransactionCount(whale, block - 1),
+      provider.getTransactionCount(whale, block),
+    ]);
+    if (nonceAfter - nonceBefore !== 1) return null;
+
+    const [before, after, raw] = await Promise.all([
+      provider.getBalance(whale, block - 1),
+      provider.getBalance(whale, block),
+      provider.send("eth_getTransactionReceipt", [receipt.hash]),
+    ]);
+    // Em rollups OP Stack (Base, Optimism) a taxa inclui o custo de L1 (campo l1Fee do receipt)
+    const fee = receipt.fee + BigInt(raw?.l1Fee ?? 0);
+    return after - before + fee;
+  } catch {
+    return null;
+  }
 }
 
-async function resolveSwapInfo(txHash: string, whaleFrom: string): Promise<{ tokenSold: string | null; isEthOut: boolean }> {
+async function resolveSwapInfo(rt: ChainRuntime, tx: PendingTx, swap: SwapInfo): Promise<{
+  event: SwapEvent | null;
+  receipt: ethers.TransactionReceipt | null;
+}> {
+  const whale = tx.from.toLowerCase();
   let receipt = null;
   for (let attempt = 0; attempt < 10; attempt++) {
-    receipt = await httpProvider.getTransactionReceipt(txHash);
+    receipt = await rt.provider.getTransactionReceipt(tx.hash);
     if (receipt) break;
     await new Promise(r => setTimeout(r, 2000));
   }
   if (!receipt) {
-    logger.warn(`⚠️  Receipt não encontrado após 20s para ${txHash}`);
-    return { tokenSold: null, isEthOut: false };
+    logger.warn(`⚠️  Receipt não encontrado após 20s para ${tx.hash}`);
+    return { event: null, receipt: null };
   }
 
-  const transferTopic = ethers.id("Transfer(address,address,uint256)");
-  const withdrawalTopic = ethers.id("Withdrawal(address,uint256)");
-
-  const isEthOut = receipt.logs.some(
-    (log) => log.topics[0] === withdrawalTopic && log.address.toLowerCase() === WETH
-  );
-
-  // Token que SAIU da whale (ela vendeu)
-  const soldLog = receipt.logs.find(
-    (log) =>
-      log.topics[0] === transferTopic &&
-      log.topics[1] &&
-      ethers.dataSlice(log.topics[1], 12).toLowerCase() === whaleFrom.toLowerCase() &&
-      log.address.toLowerCase() !== WETH
-  );
+  const weth = rt.chain.weth;
+  const txValue = BigInt(tx.value ?? "0");
+  const touchesNativeEth = txValue > 0n || receipt.logs.some((log) => log.address.toLowerCase() === weth && log.topics[0] === WITHDRAWAL_TOPIC);
+  const nativeDelta = touchesNativeEth ? await nativeEthDelta(rt, receipt, whale) : null;
 
-  // Token que ENTROU na whale (ela comprou)
-  const boughtLog = receipt.logs.find(
-    (log) =>
-      log.topics[0] === transferTopic &&
-      log.topics[2] &&
-      ethers.dataSlice(log.topics[2], 12).toLowerCase() === whaleFrom.toLowerCase() &&
-      log.address.toLowerCase() !== WETH
-  );
+  const event = classifySwapEvent(receipt, whale, weth, { txValue, nativeDelta, swap });
+  const fmt = (list: { token: string }[]) => list.map((a) => a.token).join(", ");
+  logger.info(`🧾 Swap da whale (${event.kind}): vendeu [${fmt(event.sold)}${event.ethIn > 0n ? `${event.sold.length ? ", " : ""}${ethers.formatEther(event.ethIn)} ETH` : ""}] → comprou [${fmt(event.bought)}${event.ethOut > 0n ? `${event.bought.length ? ", " : ""}${ethers.formatEther(event.ethOut)} ETH` : ""}]`);
+  return { event, receipt };
+}
 
-  if (isEthOut && soldLog) {
-    logger.info(`💰 Whale vendeu ${soldLog.address} → ETH`);
-    return { tokenSold: soldLog.address.toLowerCase(), isEthOut: true };
+// Registra o swap da whale pra analytics (copiado ou não), um registro por token:
+// - token comprado com / vendido por quote assets: valor em USD da perna em quote assets
+// - rotação A → B: venda de A + compra de B (igual à cópia), as duas pelo valor da perna
+//   intermediária em quote asset que passou pelos pools (A → WETH → B)
+// - mais de um token do mesmo lado: sem como dividir o valor, entram sem USD, só com a
+//   quantidade (o FIFO das vendas seguintes continua casando)
+async function trackWhaleTrade(rt: ChainRuntime, tx: PendingTx, event: SwapEvent, receipt: ethers.TransactionReceipt): Promise<void> {
+  const isQuote = (token: string) => isQuoteAsset(rt.chain, token);
+  const sold = event.sold.filter((a) => !isQuote(a.token));
+  const bought = event.bought.filter((a) => !isQuote(a.token));
+  if (sold.length + bought.length === 0) return;
+
+  // Preço dentro de PRICE_MAX_AGE_SEC ou nada: com perna em ETH, o trade fica sem valor em USD
+  const ethPriceUsd = await getEthPrice(rt.chain).catch(() => null);
+  // null = alguma parte sem valor (ETH sem preço, quote asset sem oráculo) ou perna vazia
+  const legUsd = (leg: AssetAmount[]): number | null => {
+    let total = 0;
+    for (const a of leg) {
+      const usd = isEth(rt, a.token) && ethPriceUsd === null ? null : quoteAssetUsd(rt.chain, a.token, a.amount, ethPriceUsd ?? 0);
+      if (usd === null) return null;
+      total += usd;
+    }
+    return total > 0 ? total : null;
+  };
+
+  const trades: { asset: AssetAmount; side: "buy" | "sell"; valueUsd: number | null }[] = [];
+  if (sold.length === 0 && bought.length === 1) {
+    const spent = [...(event.ethIn > 0n ? [{ token: ETH_ADDRESS, amount: event.ethIn }] : []), ...event.sold.filter((a) => isQuote(a.token))];
+    trades.push({ asset: bought[0], side: "buy", valueUsd: legUsd(spent) });
+  } else if (sold.length === 1 && bought.length === 0) {
+    const received = [...(event.ethOut > 0n ? [{ token: ETH_ADDRESS, amount: event.ethOut }] : []), ...event.bought.filter((a) => isQuote(a.token))];
+    trades.push({ asset: sold[0], side: "sell", valueUsd: legUsd(received) });
+  } else {
+    // Rotação simples: o maior valor entre as pernas intermediárias cotáveis
+    const routed = sold.length === 1 && bought.length === 1
+      ? routedQuoteAmounts(receipt, tx.from, rt.chain.weth, isQuote).map((a) => legUsd([a])).filter((usd): usd is number => usd !== null)
+      : [];
+    const valueUsd = routed.length ? Math.max(...routed) : null;
+    for (const asset of sold) trades.push({ asset, side: "sell", valueUsd });
+    for (const asset of bought) trades.push({ asset, side: "buy", valueUsd });
   }
 
-  if (isEthOut && !soldLog) {
-    logger.warn(`⚠️  WETH withdrawal detectado mas tokenSold não identificado — fallback`);
-    return { tokenSold: null, isEthOut: true };
+  const block = await rt.provider.getBlock(receipt.blockNumber).catch(() => null);
+  const whale = tx.from.toLowerCase();
+  for (const { asset, side, valueUsd } of trades) {
+    recordWhaleTrade({
+      timestamp: block ? block.timestamp * 1000 : Date.now(),
+      chain: rt.chain.key,
+      whale,
+      token: asset.token,
+      side,
+      tokenAmount: asset.amount.toString(),
+      valueUsd,
+      ethUsd: ethPriceUsd,
+      txHash: tx.hash,
+    });
   }
+  if (trades.some((t) => t.side === "sell")) await checkAutoDisable(whale);
+}
 
-  if (boughtLog) {
-    return { tokenSold: null, isEthOut: false };
+// Saldo do ativo que paga as compras (ETH ou FUNDING_ASSET), em USD
+async function fundingBalance(rt: ChainRuntime, ethPriceUsd: number): Promise<{ usd: number; display: string; symbol: string }> {
+  const funding = getFundingAsset(rt.chain);
+  if (DRY_RUN) {
+    // Modo paper: o saldo virtual é sempre em ETH, mesmo comprando com stablecoin
+    const eth = Math.max(getPaperEthBalance(), 0);
+    return { usd: eth * ethPriceUsd, display: eth.toFixed(6), symbol: "ETH" };
   }
-
-  logger.warn(`⚠️  Não foi possível identificar swap no receipt de ${txHash}`);
-  return { tokenSold: null, isEthOut: false };
+  if (funding) {
+    const token = new ethers.Contract(funding.address, ["function balanceOf(address) view returns (uint256)"], rt.provider);
+    const raw: bigint = await token.balanceOf(process.env.MY_WALLET_ADDRESS!);
+    const units = parseFloat(ethers.formatUnits(raw, funding.decimals));
+    return { usd: units, display: units.toFixed(2), symbol: funding.symbol };
+  }
+  const eth = parseFloat(ethers.formatEther(await rt.provider.getBalance(process.env.MY_WALLET_ADDRESS!)));
+  return { usd: eth * ethPriceUsd, display: eth.toFixed(6), symbol: "ETH" };
 }
 
-async function handleSwap(tx: {
-  hash: string;
-  from: string;
-  to: string | null;
-  input: string;
-  value: string;
-}, tokenOut: string, tokenSold?: string | null): Promise<void> {
+// tokenOut = WETH da chain significa venda de tokenSold; qualquer outro token é compra.
+// whaleInput = quanto a whale gastou na compra (ETH ou outro quote asset), usado no sizing.
+// route = rota exata da whale, quando o calldata permite replicar (venue "whale").
+// whaleReceived = tokens que a whale recebeu (receipt), pra comparar o preço efetivo com o nosso.
+async function handleSwap(
+  rt: ChainRuntime,
+  tx: PendingTx,
+  tokenOut: string,
+  tokenSold?: string | null,
+  whaleInput?: AssetAmount | null,
+  route?: SwapRoute,
+  whaleReceived?: bigint | null
+): Promise<void> {
+  const chain = rt.chain.key;
   const from = tx.from.toLowerCase();
-
-  if (isEth(tokenOut)) {
-    logger.info(`🔔 WHALE VENDEU! Verificando posições abertas...`);
+  const profile = getProfile(from);
+  if (!profile) return;
+
+  if (isEth(rt, tokenOut)) {
+    if (tokenSold) recordSignal({ chain, token: tokenSold, whale: from, side: "sell", txHash: tx.hash });
+    // Posições de consenso saem inteiras quando a maioria das whales que dispararam vende.
+    // Não são da whale: o copySells dela não se aplica
+    const exits = tokenSold ? consensusExits(chain, tokenSold, from) : [];
+    for (const { position, exited, total } of exits) {
+      await sellPosition(CONSENSUS_WHALE, position, { fraction: 1, reason: `consenso desfeito (${exited}/${total} whales saíram)` });
+    }
+    if (!profile.copySells) {
+      logger.info(`⏭️  ${profile.label} vendeu, mas copySells está desligado`);
+      return;
+    }
+    logger.info(`🔔 WHALE VENDEU (${profile.label})! Verificando posições abertas...`);
 
     // Determina quais tokens vender
     let tokensToSell: string[];
     if (tokenSold) {
-      const count = countPositions(from, tokenSold);
+      const count = countPositions(from, tokenSold, chain);
+      if (count === 0 && exits.length > 0) return;
       if (count === 0) {
         // Whale vendeu token que não temos (compra falhou ou nunca comprou)
         // → NOTIFICA qual token foi vendido, mas NÃO vende nada
         logger.info(`⏭️  Whale vendeu ${tokenSold} mas não temos posição`);
-        await notifySellDetected({ whaleWallet: from, tokenIn: tokenSold, whaleTxHash: tx.hash });
+        await notifySellDetected({ whaleWallet: from, chain, tokenIn: tokenSold, whaleTxHash: tx.hash });
         return;
       }
       logger.info(`🎯 Venda específica: ${tokenSold} (${count} posição(ões) abertas)`);
@@ -215,120 +277,407 @@ async function handleSwap(tx: {
       // tokenSold === null (não conseguiu identificar o que a whale vendeu)
       // → NOTIFICA no telegram, mas NÃO vende nada automaticamente
       logger.warn(`⚠️  Token vendido não identificado, avisando no telegram`);
-      await notifySellDetected({ whaleWallet: from, tokenIn: "unknown", whaleTxHash: tx.hash });
+      await notifySellDetected({ whaleWallet: from, chain, tokenIn: "unknown", whaleTxHash: tx.hash });
       return;
     }
 
+    // Cada venda da whale fecha só a posição mais antiga dela (FIFO), na quantidade registrada:
+    // o saldo do token pode incluir posições de outras whales ou de consenso
     for (const tokenIn of tokensToSell) {
-      const remaining = countPositions(from, tokenIn);
-      logger.info(`💸 Vendendo 1 de ${remaining} posição(ões) de ${tokenIn}`);
-
-      // Calcula fração a vender: 1/remaining do saldo atual
-      const fraction = 1 / remaining;
-      logger.info(`📊 Fração a vender: ${(fraction * 100).toFixed(1)}% do saldo`);
-
-      const result = await executeCopySell({
-        tokenIn,
-        walletAddress: process.env.MY_WALLET_ADDRESS!,
-        signer,
-        provider: httpProvider,
-        fraction, // nova prop
-      });
-
-      if (result.status === "success" && result.txHash) {
-        popPosition(from, tokenIn);
-        await notifySellExecuted({
-          whaleWallet: from,
-          tokenIn,
-          receivedEth: result.sellAmountEth,
-          txHash: result.txHash,
-          whaleTxHash: tx.hash,
-          gasCostEth: result.gasCostEth,
-        });
-      } else if (result.status === "skipped") {
-        popPosition(from, tokenIn);
-        logger.info(`⏭️  Sem saldo de ${tokenIn}, removendo posição`);
-      } else {
+      const [position] = getPositionsForToken(from, tokenIn, chain);
+      if (!position.tokenAmount) {
+        logger.warn(`⚠️  Posição ${position.id} sem quantidade registrada (o reconciler preenche), venda não copiada`);
         await notifySellFailed({
           whaleWallet: from,
+          chain,
           tokenIn,
-          reason: result.errorMsg ?? "unknown",
+          reason: "posição sem quantidade registrada",
           whaleTxHash: tx.hash,
         });
+        continue;
       }
+      logger.info(`💸 Vendendo a posição mais antiga de ${tokenIn}: ${position.tokenAmount} (raw)`);
+      await sellPosition(from, position, { fraction: 1, reason: `${profile.label} vendeu` }, { whaleTx: tx.hash, route });
     }
     return;
   }
 
   // COMPRA
+  recordSignal({ chain, token: tokenOut, whale: from, side: "buy", txHash: tx.hash });
+  if (isPaused() || await checkLossLimit()) {
+    logger.info(`⏸️  Compras pausadas, ignorando compra de ${tokenOut} por ${profile.label}`);
+    return;
+  }
+  if (!profile.copyBuys) {
+    logger.info(`⏭️  ${profile.label} comprou ${tokenOut}, mas copyBuys está desligado`);
+    return;
+  }
+  if (!isTokenAllowed(profile, tokenOut)) {
+    logger.info(`⏭️  Token ${tokenOut} bloqueado pelas listas allow/deny de ${profile.label}`);
+    return;
+  }
+  const rule = checkEntryRules({ chain, token: tokenOut, whale: from });
+  if (rule) {
+    logger.info(`⏭️  Regra ${rule.skipReason}: pulando compra de ${tokenOut} por ${profile.label} — ${rule.details}`);
+    return;
+  }
+  const consensus = CONSENSUS_MODE ? evaluateBuyConsensus(chain, tokenOut) : null;
+  if (consensus && !consensus.fire) return;
+  // Posição de consenso fica em nome de "consensus", não da whale que completou o score
+  const owner = consensus ? CONSENSUS_WHALE : from;
+
   const now = Date.now();
 
-  const balance = await httpProvider.getBalance(process.env.MY_WALLET_ADDRESS!);
-  const requiredEth = (TRADE_AMOUNT_USD / 2000) * 1.05;
-  if (balance < ethers.parseEther(requiredEth.toFixed(8))) {
-    logger.warn(`⚠️  Saldo insuficiente (${ethers.formatEther(balance)} ETH), pulando trade`);
+  let ethPriceUsd: number;
+  try {
+    ethPriceUsd = await getEthPrice(rt.chain);
+  } catch (err: any) {
+    // Sem preço confiável não dá pra dimensionar nem checar saldo: não compra
+    logger.error(`❌ ${err.message} — pulando compra de ${tokenOut}`);
+    await notifyBuySkipped({ whaleWallet: from, chain, tokenOut, skipReason: "no_price", details: err.message, whaleTxHash: tx.hash });
+    return;
+  }
+  const whaleInputUsd = whaleInput ? quoteAssetUsd(rt.chain, whaleInput.token, whaleInput.amount, ethPriceUsd) : null;
+  const balance = await fundingBalance(rt, ethPriceUsd);
+
+  const size = computeTradeSize(getSizingConfig(SIZING, profile.sizing), { whaleInputUsd, balanceUsd: balance.usd });
+  if (!size) return;
+  const amountUsd = consensus ? Math.round(size.amountUsd * consensus.multiplier * 100) / 100 : size.amountUsd;
+  logger.info(`📐 Sizing (${profile.sizing?.mode ?? SIZING.mode}): $${amountUsd} — ${size.reason}${consensus ? ` x${consensus.multiplier.toFixed(2)} (consenso)` : ""}`);
+
+  const blocked = checkBuyRisk({ chain, token: tokenOut, whale: owner, amountUsd, ethPriceUsd });
+  if (blocked) {
+    logger.warn(`🛡️  Limite de risco: pulando compra de ${tokenOut} — ${blocked}`);
+    await notifyBuySkipped({ whaleWallet: from, chain, tokenOut, skipReason: "risk_limit", details: blocked, whaleTxHash: tx.hash });
+    return;
+  }
+
+  if (balance.usd < amountUsd * 1.05) {
+    logger.warn(`⚠️  Saldo insuficiente em ${rt.chain.name} (${balance.display} ${balance.symbol}), pulando trade`);
     await notifyInsufficientBalance({
-      currentEth: parseFloat(ethers.formatEther(balance)).toFixed(6),
-      requiredUsd: TRADE_AMOUNT_USD,
-      ethPriceUsd: 2000,
+      chain,
+      currentBalance: balance.display,
+      symbol: balance.symbol,
+      requiredUsd: amountUsd,
+      ethPriceUsd,
     });
     return;
   }
 
   const result = await executeCopyTrade({
+    chain: rt.chain,
     tokenOut,
-    amountUsd: TRADE_AMOUNT_USD,
+    amountUsd,
     walletAddress: process.env.MY_WALLET_ADDRESS!,
-    signer,
-    provider: httpProvider,
+    signer: rt.signer,
+    provider: rt.provider,
+    slippagePct: profile.maxSlippage,
+    whaleAddress: from,
+    funding: getFundingAsset(rt.chain),
+    route,
+    checkPrice: priceMoveCheck({ whaleInputUsd, whaleReceived, amountUsd }),
   });
 
   if (result.status === "success" && result.txHash) {
-    addPosition(from, {
+    const positionId = newPositionId();
+    addPosition(owner, {
+      id: positionId,
+      chain,
       token: tokenOut.toLowerCase(),
       whaleTx: tx.hash,
       myTx: result.txHash,
-      amountUsd: TRADE_AMOUNT_USD,
+      amountUsd,
       timestamp: now,
+      tokenAmount: result.buyAmountRaw,
+      entryEth: result.sellAmountEth,
+      triggerWhales: consensus?.whales,
+    });
+    recordFill({
+      chain,
+      side: "buy",
+      whale: owner,
+      token: tokenOut.toLowerCase(),
+      tokenAmount: result.buyAmountRaw ?? "0",
+      eth: result.sellAmountEth,
+      gasEth: result.gasCostEth ?? 0,
+      ethUsd: result.ethPriceUsd,
+      txHash: result.txHash,
+      positionId,
+      whaleTx: tx.hash,
     });
     await notifyBuyExecuted({
       whaleWallet: from,
+      chain,
       tokenOut,
-      amountUsd: TRADE_AMOUNT_USD,
+      amountUsd,
       sellAmountEth: result.sellAmountEth,
-      ethPriceUsd: result.ethPriceUsd,
+      ethPriceUsd,
       txHash: result.txHash,
       whaleTxHash: tx.hash,
       delayMs: Date.now() - now,
       gasCostEth: result.gasCostEth,
+      positionId,
     });
   } else if (result.status === "failed") {
     await notifyBuyFailed({
       whaleWallet: from,
+      chain,
       tokenOut,
       reason: result.errorMsg ?? "unknown",
       whaleTxHash: tx.hash,
     });
+  } else if (result.status === "skipped") {
+    await notifyBuySkipped({
+      whaleWallet: from,
+      chain,
+      tokenOut,
+      skipReason: result.skipReason ?? "unknown",
+      details: result.errorMsg,
+      whaleTxHash: tx.hash,
+    });
   }
 }
 
-async function handlePendingTx(tx: {
-  hash: string;
-  from: string;
-  to: string | null;
-  input: string;
-  value: string;
-}): Promise<void> {
+// Posições com venda em andamento: whale, consenso, monitor, /sell e API passam todos por
+// sellPosition, e uma segunda venda da mesma posição venderia tokens de outra
+const sellingPositions = new Set<string>();
+
+// Vende `decision.fraction` da quantidade da posição. Saídas próprias (monitor, manual) não têm
+// `copyOf`; numa venda copiada ele traz a tx da whale e a rota dela (venue "whale").
+// null = nada a vender (chain fora de CHAINS, posição já fechada ou já em venda).
+async function sellPosition(
+  whale: string,
+  position: Position,
+  decision: ExitDecision,
+  copyOf?: { whaleTx: string; route?: SwapRoute }
+): Promise<TradeResult | null> {
+  if (sellingPositions.has(position.id)) {
+    logger.info(`⏭️  Posição ${position.id} já está sendo vendida (${decision.reason})`);
+    return null;
+  }
+  sellingPositions.add(position.id);
+  try {
+    // O snapshot do chamador pode ser de antes de uma venda parcial que acabou de terminar
+    const current = findPosition(position.id);
+    return current ? await executePositionSell(whale, current.position, decision, copyOf) : null;
+  } finally {
+    sellingPositions.delete(position.id);
+  }
+}
+
+async function executePositionSell(
+  whale: string,
+  position: Position,
+  decision: ExitDecision,
+  copyOf?: { whaleTx: string; route?: SwapRoute }
+): Promise<TradeResult | null> {
+  const rt = runtimeFor(position.chain);
+  if (!rt) {
+    logger.warn(`⚠️  Posição ${position.id} é da chain ${position.chain}, que não está em CHAINS`);
+    return null;
+  }
+  const positionAmount = BigInt(position.tokenAmount ?? "0");
+  const amount = decision.fraction >= 1
+    ? positionAmount
+    : (positionAmount * BigInt(Math.floor(decision.fraction * 1_000_000))) / 1_000_000n;
+  if (amount === 0n) return null;
+
+  const result = await executeCopySell({
+    chain: rt.chain,
+    tokenIn: position.token,
+    walletAddress: process.env.MY_WALLET_ADDRESS!,
+    signer: rt.signer,
+    provider: rt.provider,
+    amount,
+    slippagePct: getProfile(whale)?.maxSlippage,
+    route: copyOf?.route,
+    balanceOverride: DRY_RUN ? paperTokenBalance(position.chain, position.token) : undefined,
+  });
+
+  if (result.status === "success" && result.txHash) {
+    const sold = BigInt(result.soldAmountRaw ?? amount.toString());
+    recordFill({
+      chain: position.chain,
+      side: "sell",
+      whale,
+      token: position.token,
+      tokenAmount: sold.toString(),
+      eth: result.sellAmountEth,
+      gasEth: result.gasCostEth ?? 0,
+      ethUsd: result.ethPriceUsd,
+      txHash: result.txHash,
+      positionId: position.id,
+      whaleTx: copyOf?.whaleTx,
+    });
+    const remaining = positionAmount > sold ? positionAmount - sold : 0n;
+    if (decision.fraction >= 1 || remaining === 0n) {
+      removePosition(position.id);
+    } else {
+      const keep = Number((remaining * 1_000_000n) / positionAmount) / 1_000_000;
+      updatePosition(position.id, {
+        tokenAmount: remaining.toString(),
+        entryEth: (position.entryEth ?? 0) * keep,
+        peakValueEth: position.peakValueEth !== undefined ? position.peakValueEth * keep : undefined,
+        tpLevel: decision.tpLevel ?? position.tpLevel,
+      });
+    }
+    await notifySellExecuted({
+      whaleWallet: whale,
+      chain: position.chain,
+      tokenIn: position.token,
+      receivedEth: result.sellAmountEth,
+      txHash: result.txHash,
+      whaleTxHash: copyOf?.whaleTx ?? position.whaleTx,
+      gasCostEth: result.gasCostEth,
+      ethPriceUsd: result.ethPriceUsd,
+      reason: decision.reason,
+      pnl: realizedForSell(result.txHash),
+    });
+    await checkLossLimit();
+    return result;
+  }
+
+  if (result.status === "skipped") {
+    removePosition(position.id);
+    logger.info(`⏭️  Sem saldo de ${position.token}, removendo posição`);
+    return result;
+  }
+
+  await notifySellFailed({
+    whaleWallet: whale,
+    chain: position.chain,
+    tokenIn: position.token,
+    reason: `${decision.reason}: ${result.errorMsg ?? "unknown"}`,
+    whaleTxHash: copyOf?.whaleTx ?? position.whaleTx,
+  });
+  return result;
+}
+
+// Venda manual (Telegram): `fraction` de cada posição rastreada do token. Sem posição
+// com quantidade registrada, vende a fração do saldo on-chain direto (na `chain`, ou na primeira de CHAINS).
+async function sellToken(token: string, fraction: number, reason: string, chain?: string): Promise<string> {
+  const tracked = getAllPositions().filter(({ position }) =>
+    position.token === token && position.tokenAmount && (!chain || position.chain === chain)
+  );
+  const pct = (fraction * 100).toFixed(0);
+
+  if (tracked.length === 0) {
+    const chainKey = chain ?? getChain().key;
+    const rt = runtimeFor(chainKey);
+    if (!rt) return `❌ Chain ${chainKey} não está rodando (confira CHAINS)`;
+    const result = await executeCopySell({
+      chain: rt.chain,
+      tokenIn: token,
+      walletAddress: process.env.MY_WALLET_ADDRESS!,
+      signer: rt.signer,
+      provider: rt.provider,
+      fraction,
+      balanceOverride: DRY_RUN ? paperTokenBalance(chainKey, token) : undefined,
+    });
+    if (result.status === "success" && result.txHash) {
+      recordFill({
+        chain: chainKey,
+        side: "sell",
+        whale: "manual",
+        token,
+        tokenAmount: result.soldAmountRaw ?? "0",
+        eth: result.sellAmountEth,
+        gasEth: result.gasCostEth ?? 0,
+        ethUsd: result.ethPriceUsd,
+        txHash: result.txHash,
+      });
+      await checkLossLimit();
+      if (fraction >= 1) {
+        for (const { position } of getAllPositions().filter(({ position }) => position.chain === chainKey && position.token === token)) removePosition(position.id);
+      }
+      return `✅ Vendido ${pct}% do saldo de <code>${token}</code> em ${rt.chain.name}: ${result.sellAmountEth.toFixed(6)} ETH`;
+    }
+    return result.status === "skipped"
+      ? `⏭️ Sem saldo de <code>${token}</code> em ${rt.chain.name}`
+      : `❌ Venda de <code>${token}</code> em ${rt.chain.name} falhou: ${result.errorMsg ?? "unknown"}`;
+  }
+
+  let receivedEth = 0;
+  let ok = 0;
+  for (const { whale, position } of tracked) {
+    const result = await sellPosition(whale, position, { fraction, reason });
+    if (result?.status === "success") {
+      ok++;
+      receivedEth += result.sellAmountEth;
+    }
+  }
+  return ok > 0
+    ? `✅ Vendido ${pct}% de ${ok}/${tracked.length} posição(ões) de <code>${token}</code>: ${receivedEth.toFixed(6)} ETH`
+    : `❌ Nenhuma venda de <code>${token}</code> concluída`;
+}
+
+async function sellPositionById(positionId: string, fraction: number, reason: string): Promise<string> {
+  const found = findPosition(positionId);
+  if (!found) return `⏭️ Posição já foi fechada.`;
+  if (!runtimeFor(found.position.chain)) return `❌ Posição é da chain ${found.position.chain}, que não está rodando (confira CHAINS)`;
+  if (sellingPositions.has(positionId)) return `⏳ Posição já está sendo vendida.`;
+  const result = await sellPosition(found.whale, found.position, { fraction, reason });
+  if (result?.status === "success") return `✅ Vendido ${(fraction * 100).toFixed(0)}% da posição em <code>${found.position.token}</code>: ${result.sellAmountEth.toFixed(6)} ETH`;
+  return `❌ Venda falhou: ${result?.errorMsg ?? result?.skipReason ?? "posição sem quantidade registrada"}`;
+}
+
+// Caminho rápido: tx ainda pendente, tokens decodificados só do calldata.
+// Se o calldata não disser tudo, não marca a tx — o caminho por bloco resolve via receipt.
+async function handleMempoolTx(rt: ChainRuntime, tx: PendingTx): Promise<void> {
   const from = tx.from.toLowerCase();
-  if (!TARGET_WALLETS.includes(from)) return;
-  if (processedTxs.has(tx.hash)) return;
+  if (!isFollowed(rt, from)) return;
+  if (isTxProcessed(tx.hash)) return;
+
+  const txValue = BigInt(tx.value ?? "0");
+  let swap = decodeSwap({ data: tx.input, value: txValue, to: tx.to ?? undefined, from, knownRouters: rt.chain.routers });
+  if (!swap.isSwap) return;
+  if (swap.pools) {
+    try {
+      swap = await enrichSwap(swap, rt.provider);
+    } catch (err: any) {
+      logger.warn(`⚠️  [MEMPOOL] Falha ao resolver pools de ${tx.hash}: ${err.message}`);
+    }
+  }
+
+  const isQuote = (token: string) => isQuoteAsset(rt.chain, token);
+  if (!swap.tokenIn || !swap.tokenOut || (isQuote(swap.tokenIn) && isQuote(swap.tokenOut))) {
+    logger.info(`⚡ [MEMPOOL] ${rt.chain.name}: swap de ${walletLabel(from)} via ${swap.protocol} sem tokens no calldata — aguardando bloco`);
+    return;
+  }
 
-  logger.info(`⚡ [MEMPOOL] TX da whale detectada: ${tx.hash}`);
+  // O INSERT é o claim atômico: o caminho por bloco pode ter pego a tx durante o enrichSwap
+  if (!markTxProcessed(tx.hash)) return;
+  logger.info(`⚡ [MEMPOOL] ${rt.chain.name}: swap pendente de ${walletLabel(from)} via ${swap.protocol}: ${tx.hash}`);
+
+  const tokenIn = swap.tokenIn.toLowerCase();
+  const tokenOut = swap.tokenOut.toLowerCase();
+  // Rotação (token A → token B) vira venda de A + compra de B
+  if (!isQuote(tokenIn)) await handleSwap(rt, tx, rt.chain.weth, tokenIn, null, swap.route);
+  if (!isQuote(tokenOut)) {
+    const amountIn = swap.amountIn ?? (isEth(rt, tokenIn) && txValue > 0n ? txValue : null);
+    await handleSwap(rt, tx, tokenOut, null, isQuote(tokenIn) && amountIn ? { token: tokenIn, amount: amountIn } : null, swap.route);
+  }
+
+  // O caminho por bloco não vai ver essa tx: o receipt pro analytics é buscado em segundo plano
+  resolveSwapInfo(rt, tx, swap)
+    .then(({ event, receipt }) => (event && receipt ? trackWhaleTrade(rt, tx, event, receipt) : undefined))
+    .catch((err) => logger.warn(`⚠️  Analytics de ${tx.hash}: ${err.message}`));
+}
+
+// Caminho de fallback: tx já minerada, tokens identificados pelo receipt
+async function handleBlockTx(rt: ChainRuntime, tx: PendingTx): Promise<void> {
+  const from = tx.from.toLowerCase();
+  if (!isFollowed(rt, from)) return;
+  if (isTxProcessed(tx.hash)) return;
+
+  logger.info(`🧱 [BLOCO] ${rt.chain.name}: TX da whale ${walletLabel(from)} minerada: ${tx.hash}`);
 
   const swap = decodeSwap({
     data: tx.input,
     value: BigInt(tx.value ?? "0"),
     to: tx.to ?? undefined,
+    from,
+    knownRouters: rt.chain.routers,
   });
 
   if (!swap.isSwap) {
@@ -336,54 +685,64 @@ async function handlePendingTx(tx: {
     return;
   }
 
-  logger.info(`🔄 Swap no mempool via ${swap.protocol}`);
-  processedTxs.add(tx.hash);
-
-  logger.info(`⏳ Aguardando receipt em 3s...`);
-  setTimeout(async () => {
-    try {
-      const { tokenSold, isEthOut } = await resolveSwapInfo(tx.hash, from);
+  if (!markTxProcessed(tx.hash)) return;
+  logger.info(`🔄 Swap via ${swap.protocol}`);
 
-      if (isEthOut) {
-        await handleSwap(tx, WETH, tokenSold);
+  try {
+    const { event, receipt } = await resolveSwapInfo(rt, tx, swap);
+    if (!event || !receipt) return;
+
+    // Quote assets (ETH, USDC, cbBTC...) são o "dinheiro": token → quote é saída, quote → token é entrada
+    const isQuote = (token: string) => isQuoteAsset(rt.chain, token);
+    const sold = event.sold.filter((a) => !isQuote(a.token));
+    const bought = event.bought.filter((a) => !isQuote(a.token));
+    const spent: AssetAmount[] = [
+      ...(event.ethIn > 0n ? [{ token: ETH_ADDRESS, amount: event.ethIn }] : []),
+      ...event.sold.filter((a) => isQuote(a.token)),
+    ];
+
+    if (sold.length === 0 && bought.length === 0) {
+      if (event.ethOut > 0n || event.bought.length > 0) {
+        // Recebeu quote asset sem token saindo da whale: avisa, mas não vende nada
+        await handleSwap(rt, tx, rt.chain.weth, null);
       } else {
-        // Compra: identifica token via receipt
-        const receipt = await httpProvider.getTransactionReceipt(tx.hash);
-        if (!receipt) return;
-        const transferTopic = ethers.id("Transfer(address,address,uint256)");
-        const boughtLog = receipt.logs.find(
-          (log) =>
-            log.topics[0] === transferTopic &&
-            log.topics[2] &&
-            ethers.dataSlice(log.topics[2], 12).toLowerCase() === from &&
-            log.address.toLowerCase() !== WETH
-        );
-        if (boughtLog) {
-          logger.info(`🪙 Token comprado identificado: ${boughtLog.address}`);
-          await handleSwap(tx, boughtLog.address, null);
-        } else {
-          logger.warn(`⚠️  Não foi possível identificar token comprado`);
-        }
+        logger.warn(`⚠️  Não foi possível identificar o swap no receipt de ${tx.hash}`);
       }
-    } catch (err: any) {
-      logger.error(`❌ Erro ao processar receipt para ${tx.hash}: ${err.message}`);
+      return;
+    }
+
+    // Rotação (token A → token B) vira venda de A + compra de B
+    for (const { token } of sold) {
+      await handleSwap(rt, tx, rt.chain.weth, token, null, swap.route);
+    }
+    for (const { token, amount } of bought) {
+      logger.info(`🪙 Token comprado identificado: ${token}`);
+      // Só dá pra atribuir o valor gasto quando é um único token comprado com um único quote asset
+      const whaleInput = sold.length === 0 && bought.length === 1 && spent.length === 1 ? spent[0] : null;
+      await handleSwap(rt, tx, token, null, whaleInput, swap.route, whaleInput ? amount : null);
     }
-  }, 3000);
+    // Depois da cópia, pra não atrasar a execução
+    await trackWhaleTrade(rt, tx, event, receipt).catch((err) => logger.warn(`⚠️  Analytics de ${tx.hash}: ${err.message}`));
+  } catch (err: any) {
+    logger.error(`❌ Erro ao processar receipt para ${tx.hash}: ${err.message}`);
+  }
 }
 
-function connectWS(): void {
-  logger.info("🔌 Conectando ao WebSocket da Alchemy...");
-  ws = new WebSocket(process.env.ALCHEMY_WS_URL!);
+function connectWS(rt: ChainRuntime): void {
+  const { chain } = rt;
+  logger.info(`🔌 ${chain.name}: conectando ao WebSocket...`);
+  const ws = new WebSocket(chain.wsUrl);
+  rt.ws = ws;
 
   ws.on("open", () => {
-    logger.info("✅ WebSocket conectado");
+    logger.info(`✅ ${chain.name}: WebSocket conectado`);
     ws.send(JSON.stringify({
       jsonrpc: "2.0",
       id: 1,
       method: "eth_subscribe",
       params: ["newHeads"],
     }));
-    logger.info(`👀 Monitorando blocos para ${TARGET_WALLETS.length} wallet(s)`);
+    logger.info(`👀 ${chain.name}: monitorando blocos para ${getEnabledWallets(chain.key).length} wallet(s)`);
   });
 
   let blockSubId: string | null = null;
@@ -393,15 +752,16 @@ function connectWS(): void {
       const msg = JSON.parse(raw.toString());
       if (msg.id === 1 && msg.result) {
         blockSubId = msg.result;
-        logger.info(`📡 Block sub ID: ${blockSubId}`);
+        logger.info(`📡 ${chain.name}: block sub ID ${blockSubId}`);
         return;
       }
       if (!msg.params?.subscription || msg.params.subscription !== blockSubId) return;
 
       const blockHash = msg.params.result?.hash;
       if (!blockHash) return;
+      if (msg.params.result?.number) rt.lastBlockNumber = parseInt(msg.params.result.number, 16);
 
-      const rpcRes = await fetch(process.env.ALCHEMY_HTTP_URL!, {
+      const rpcRes = await fetch(chain.httpUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -417,25 +777,25 @@ function connectWS(): void {
       for (const tx of txs) {
         if (!tx?.from) continue;
         const from = (tx.from as string).toLowerCase();
-        if (TARGET_WALLETS.includes(from)) {
-          handlePendingTx({
+        if (isFollowed(rt, from)) {
+          handleBlockTx(rt, {
             hash: tx.hash,
             from: tx.from,
             to: tx.to ?? null,
             input: tx.input ?? "0x",
             value: tx.value ?? "0x0",
-          }).catch((err) => logger.error(`Erro no handler tx: ${err.message}`));
+          }).catch((err) => logger.error(`Erro no handler tx (${chain.key}): ${err.message}`));
         }
       }
     } catch (err: any) {
-      logger.error(`Erro ao processar mensagem WS: ${err.message}`);
+      logger.error(`Erro ao processar mensagem WS (${chain.key}): ${err.message}`);
     }
   });
 
-  ws.on("error", (err) => logger.error(`❌ WebSocket error: ${err.message}`));
+  ws.on("error", (err) => logger.error(`❌ ${chain.name}: WebSocket error: ${err.message}`));
   ws.on("close", () => {
-    logger.warn("🔌 WebSocket desconectado, reconectando em 3s...");
-    setTimeout(connectWS, 3000);
+    logger.warn(`🔌 ${chain.name}: WebSocket desconectado, reconectando em 3s...`);
+    setTimeout(() => connectWS(rt), 3000);
   });
 
   const heartbeat = setInterval(() => {
@@ -444,31 +804,136 @@ function connectWS(): void {
   }, 30_000);
 }
 
+// Um loop de monitoramento por chain: blocos, mempool e reconciliação
+async function startChain(chain: ChainConfig): Promise<void> {
+  if (!DRY_RUN) validateSubmitConfig(chain);
+  const funding = getFundingAsset(chain);
+  if (funding) logger.info(`💵 ${chain.name}: compras pagas em ${funding.symbol}`);
+  const provider = getProvider(chain);
+  const rt: ChainRuntime = {
+    chain,
+    provider,
+    signer: new ethers.Wallet(process.env.MY_PRIVATE_KEY!, provider),
+    ws: null,
+    lastBlockNumber: null,
+  };
+  runtimes.set(chain.key, rt);
+
+  const balance = await provider.getBalance(process.env.MY_WALLET_ADDRESS!);
+  logger.info(`💰 ${chain.name}: saldo ${ethers.formatEther(balance)} ETH`);
+  if (balance < ethers.parseEther("0.005")) {
+    logger.warn(`⚠️  ${chain.name}: saldo baixo! Mantenha pelo menos 0.005 ETH para gas`);
+  }
+
+  // Txs que ficaram presas antes do restart seguram o nonce: cancela em segundo plano
+  if (!DRY_RUN) {
+    recoverPendingTxs(rt.signer, chain.chainId).catch((err) => logger.error(`Erro ao recuperar txs pendentes (${chain.key}): ${err.message}`));
+  }
+
+  connectWS(rt);
+  if (isMempoolEnabled()) {
+    startPendingFeed({
+      chain: chain.key,
+      wsUrl: chain.wsUrl,
+      pendingWsUrl: chain.pendingWsUrl,
+      getWallets: () => getEnabledWallets(chain.key),
+      onTx: (tx) => handleMempoolTx(rt, tx).catch((err) => logger.error(`Erro no handler mempool (${chain.key}): ${err.message}`)),
+    });
+  }
+  startReconciler({
+    chain: chain.key,
+    walletAddress: process.env.MY_WALLET_ADDRESS!,
+    provider,
+    ignoreTokens: getQuoteAssets(chain).map((a) => a.address),
+  });
+}
+
+async function getEthBalance(chain: string): Promise<bigint> {
+  if (DRY_RUN) return ethers.parseEther(Math.max(getPaperEthBalance(), 0).toFixed(18));
+  const rt = runtimeFor(chain);
+  if (!rt) throw new Error(`chain ${chain} não está rodando`);
+  return rt.provider.getBalance(process.env.MY_WALLET_ADDRESS!);
+}
+
+function chainHealth(): ChainHealth[] {
+  return [...runtimes.values()].map((rt) => ({
+    chain: rt.chain.key,
+    name: rt.chain.name,
+    chainId: rt.chain.chainId,
+    wsConnected: rt.ws?.readyState === WebSocket.OPEN,
+    mempool: !isMempoolEnabled() ? "desligado" : isPendingFeedConnected(rt.chain.key) ? "conectado" : "desconectado",
+    lastBlock: rt.lastBlockNumber,
+    pendingTxs: DRY_RUN ? 0 : getPendingTxs(rt.chain.chainId).length,
+  }));
+}
+
+// Só o que ajuda a entender o comportamento do bot — nada de chaves ou URLs de RPC
+function configSummary(): Record<string, unknown> {
+  return {
+    dryRun: DRY_RUN,
+    tradeAmountUsd: TRADE_AMOUNT_USD,
+    sizing: SIZING,
+    mempool: isMempoolEnabled(),
+    consensus: CONSENSUS_MODE,
+    submit: { buy: submitModeFor("buy"), sell: submitModeFor("sell") },
+    chains: CHAINS.map((c) => ({ key: c.key, name: c.name, chainId: c.chainId, venues: getVenues(c).map((v) => v.name) })),
+    risk: riskSummary(lastEthPrice()),
+  };
+}
+
 async function startMonitor(): Promise<void> {
-  logger.info("🚀 Copy Trade Bot (Mempool Mode) iniciando...");
-  logger.info(`👛 Monitorando ${TARGET_WALLETS.length} wallet(s):`);
-  TARGET_WALLETS.forEach((w) => logger.info(`   → ${w}`));
-  logger.info(`💵 Valor por trade: $${TRADE_AMOUNT_USD} USD`);
+  logger.info(`🚀 Copy Trade Bot (${isMempoolEnabled() ? "Mempool + blocos" : "só blocos"}) iniciando...`);
+  if (DRY_RUN) logger.info(`📝 MODO PAPER (DRY_RUN): nenhuma transação será enviada — saldo virtual ${getPaperEthBalance().toFixed(6)} ETH`);
+  logger.info(`⛓️  Chains: ${CHAINS.map((c) => `${c.name} (${c.chainId})`).join(", ")}`);
+  const wallets = getEnabledWallets();
+  logger.info(`👛 Monitorando ${wallets.length} wallet(s):`);
+  wallets.forEach((w) => logger.info(`   → ${w} (${walletLabel(w)})`));
+  logger.info(`💵 Valor por trade: $${TRADE_AMOUNT_USD} USD (sizing: ${SIZING.mode})`);
+  if (!DRY_RUN) logger.info(`📨 Envio de txs: compra ${submitModeFor("buy")}, venda ${submitModeFor("sell")}`);
 
   initTelegram();
-  httpProvider = new ethers.JsonRpcProvider(process.env.ALCHEMY_HTTP_URL!);
-  signer = new ethers.Wallet(process.env.MY_PRIVATE_KEY!, httpProvider);
+  pruneProcessedTxs();
+  logger.info(`🔑 Bot wallet: ${new ethers.Wallet(process.env.MY_PRIVATE_KEY!).address}`);
 
-  logger.info(`🔑 Bot wallet: ${await signer.getAddress()}`);
-  const balance = await httpProvider.getBalance(signer.getAddress());
-  logger.info(`💰 Saldo ETH: ${ethers.formatEther(balance)} ETH`);
-  if (balance < ethers.parseEther("0.005")) {
-    logger.warn("⚠️  Saldo baixo! Mantenha pelo menos 0.005 ETH para gas");
+  // Config inválida de uma chain (FUNDING_ASSET, envio privado) derruba o bot na subida
+  for (const chain of CHAINS) {
+    try {
+      await startChain(chain);
+    } catch (err: any) {
+      logger.error(`❌ ${chain.name}: ${err.message}`);
+      process.exit(1);
+    }
   }
 
-  await notifyBotStarted(TARGET_WALLETS);
-  connectWS();
+  await notifyBotStarted(wallets, isMempoolEnabled(), CHAINS.map((c) => c.key));
+  startPositionMonitor({ walletAddress: process.env.MY_WALLET_ADDRESS!, sell: sellPosition });
+  startCommandBot({
+    walletAddress: process.env.MY_WALLET_ADDRESS!,
+    getEthBalance,
+    sellToken,
+    sellPositionById,
+    statusLines: () => chainHealth().flatMap((h) => [
+      `⛓️ <b>${h.name}</b>`,
+      `🔌 WebSocket: ${h.wsConnected ? "conectado" : "desconectado"}`,
+      `⚡ Mempool: ${h.mempool}`,
+      `🧱 Último bloco: ${h.lastBlock ?? "—"}`,
+      ...(DRY_RUN ? [] : [`⏳ Txs pendentes: ${h.pendingTxs}`]),
+    ]).concat(riskSummary(lastEthPrice()), `⏱️ Uptime: ${((Date.now() - startedAt) / 3_600_000).toFixed(1)}h`),
+  });
+  startApiServer({
+    walletAddress: process.env.MY_WALLET_ADDRESS!,
+    getEthBalance,
+    sellPositionById,
+    chainHealth,
+    configSummary,
+  });
 }
 
 process.on("SIGINT", async () => {
   logger.info("⛔ Encerrando bot...");
   await notifyBotStopped();
-  ws?.close();
+  for (const rt of runtimes.values()) rt.ws?.close();
+  closeDb();
   process.exit(0);
 });
 
@@ -0,0 +1,247 @@
+import { ethers } from "ethers";
+import axios from "axios";
+import { logger } from "./logger";
+import { DRY_RUN, walletLabel } from "./config";
+import { getDb } from "./db";
+import { getAllPositions } from "./positions";
+import { ETH_ADDRESS } from "./zerox";
+import { getChain, isChainEnabled } from "./chains";
+import { getBestPrice } from "./venues";
+
+// ─────────────────────────────────────────────
+// LEDGER — registro append-only de cada fill
+// ─────────────────────────────────────────────
+export interface Fill {
+  timestamp: number;
+  chain: string;
+  side: "buy" | "sell";
+  whale: string;
+  token: string;
+  tokenAmount: string;  // raw
+  eth: number;          // ETH gasto (buy) ou recebido (sell)
+  gasEth: number;
+  ethUsd: number | null; // preço do ETH no momento do fill; null = sem cotação fresca (fora do PnL em USD)
+  txHash: string;
+  positionId?: string;
+  whaleTx?: string;     // tx da whale que originou o fill (vazio em saídas próprias/manuais)
+  paper: boolean;
+}
+
+interface TradeRow {
+  timestamp: number;
+  chain: string;
+  side: "buy" | "sell";
+  whale: string;
+  token: string;
+  token_amount: string;
+  eth: number;
+  gas_eth: number;
+  eth_usd: number | null;
+  tx_hash: string;
+  position_id: string | null;
+  whale_tx: string | null;
+  paper: number;
+}
+
+export function recordFill(fill: Omit<Fill, "timestamp" | "paper">): void {
+  try {
+    getDb().prepare(`
+      INSERT INTO trades (timestamp, chain, side, whale, token, token_amount, eth, gas_eth, eth_usd, tx_hash, position_id, whale_tx, paper)
+      VALUES (@timestamp, @chain, @side, @whale, @token, @tokenAmount, @eth, @gasEth, @ethUsd, @txHash, @positionId, @whaleTx, @paper)
+    `).run({ ...fill, positionId: fill.positionId ?? null, whaleTx: fill.whaleTx ?? null, timestamp: Date.now(), paper: DRY_RUN ? 1 : 0 });
+  } catch (err: any) {
+    logger.error(`❌ Erro ao gravar fill no ledger: ${err.message}`);
+  }
+}
+
+export function loadFills(): Fill[] {
+  const rows = getDb().prepare("SELECT * FROM trades ORDER BY id").all() as TradeRow[];
+  return rows.map((r) => ({
+    timestamp: r.timestamp,
+    chain: r.chain,
+    side: r.side,
+    whale: r.whale,
+    token: r.token,
+    tokenAmount: r.token_amount,
+    eth: r.eth,
+    gasEth: r.gas_eth,
+    ethUsd: r.eth_usd,
+    txHash: r.tx_hash,
+    positionId: r.position_id ?? undefined,
+    whaleTx: r.whale_tx ?? undefined,
+    paper: r.paper === 1,
+  }));
+}
+
+// Saldo ETH virtual do modo paper: PAPER_BALANCE_ETH inicial ± fills simulados
+export function getPaperEthBalance(): number {
+  const start = parseFloat(process.env.PAPER_BALANCE_ETH ?? "1");
+  return loadFills().reduce(
+    (acc, f) => (f.side === "buy" ? acc - f.eth - f.gasEth : acc + f.eth - f.gasEth),
+    start
+  );
+}
+
+// ─────────────────────────────────────────────
+// PnL REALIZADO
+// ─────────────────────────────────────────────
+// Custo de uma posição = ETH da compra + gas da compra. Cada venda realiza
+// (ETH recebido - gas) menos a fração do custo proporcional aos tokens vendidos.
+
+export interface RealizedFill {
+  fill: Fill;
+  costEth: number;
+  pnlEth: number;
+  pnlUsd: number | null;
+}
+
+export interface PnlSummary {
+  buys: number;
+  sells: number;
+  investedEth: number;
+  realizedEth: number;
+  realizedUsd: number;
+  gasEth: number;
+}
+
+function emptySummary(): PnlSummary {
+  return { buys: 0, sells: 0, investedEth: 0, realizedEth: 0, realizedUsd: 0, gasEth: 0 };
+}
+
+// PnL de cada venda, casando com a compra da mesma posição
+export function realizeFills(fills: Fill[]): RealizedFill[] {
+  const buys = new Map<string, Fill>();
+  for (const f of fills) if (f.side === "buy" && f.positionId) buys.set(f.positionId, f);
+
+  return fills
+    .filter((f) => f.side === "sell")
+    .map((fill) => {
+      const buy = fill.positionId ? buys.get(fill.positionId) : undefined;
+      let costEth = 0;
+      if (buy) {
+        const bought = BigInt(buy.tokenAmount);
+        const sold = BigInt(fill.tokenAmount);
+        const share = bought > 0n ? Math.min(Number((sold * 1_000_000n) / bought) / 1_000_000, 1) : 1;
+        costEth = (buy.eth + buy.gasEth) * share;
+      }
+      const pnlEth = fill.eth - fill.gasEth - costEth;
+      return { fill, costEth, pnlEth, pnlUsd: fill.ethUsd === null ? null : pnlEth * fill.ethUsd };
+    });
+}
+
+// PnL da venda recém-registrada (para a notificação)
+export function realizedForSell(txHash: string): { pnlEth: number; pnlPct: number } | null {
+  const realized = realizeFills(loadFills()).find((r) => r.fill.txHash === txHash);
+  if (!realized || realized.costEth <= 0) return null;
+  return { pnlEth: realized.pnlEth, pnlPct: (realized.pnlEth / realized.costEth) * 100 };
+}
+
+export function summarizePnl(fills: Fill[] = loadFills()): { overall: PnlSummary; byWhale: Map<string, PnlSummary>; byToken: Map<string, PnlSummary> } {
+  const overall = emptySummary();
+  const byWhale = new Map<string, PnlSummary>();
+  const byToken = new Map<string, PnlSummary>();
+  const bucket = (map: Map<string, PnlSummary>, key: string) => {
+    if (!map.has(key)) map.set(key, emptySummary());
+    return map.get(key)!;
+  };
+
+  for (const f of fills.filter((f) => f.side === "buy")) {
+    for (const s of [overall, bucket(byWhale, f.whale), bucket(byToken, f.token)]) {
+      s.buys++;
+      s.investedEth += f.eth;
+      s.gasEth += f.gasEth;
+    }
+  }
+  for (const r of realizeFills(fills)) {
+    for (const s of [overall, bucket(byWhale, r.fill.whale), bucket(byToken, r.fill.token)]) {
+      s.sells++;
+      s.realizedEth += r.pnlEth;
+      s.realizedUsd += r.pnlUsd ?? 0;
+      s.gasEth += r.fill.gasEth;
+    }
+  }
+  return { overall, byWhale, byToken };
+}
+
+// ─────────────────────────────────────────────
+// PnL NÃO REALIZADO (cotação ao vivo na 0x)
+// ─────────────────────────────────────────────
+export interface UnrealizedPosition {
+  whale: string;
+  chain: string;
+  token: string;
+  positionId: string;
+  costEth: number;
+  valueEth: number | null;
+  pnlEth: number | null;
+}
+
+export async function getUnrealizedPnl(walletAddress: string): Promise<UnrealizedPosition[]> {
+  const open = getAllPositions().filter(({ position }) => position.tokenAmount && position.entryEth !== undefined);
+  // O mesmo endereço pode existir em chains diferentes: agrupa por chain + token
+  const keyOf = (p: { chain: string; token: string }) => `${p.chain}:${p.token}`;
+  const totals = new Map<string, bigint>();
+  for (const { position } of open) {
+    totals.set(keyOf(position), (totals.get(keyOf(position)) ?? 0n) + BigInt(position.tokenAmount!));
+  }
+
+  const values = new Map<string, number | null>();
+  for (const [key, total] of totals.entries()) {
+    const [chain, token] = key.split(":");
+    if (!isChainEnabled(chain)) {
+      values.set(key, null);
+      continue;
+    }
+    try {
+      const price = await getBestPrice({ chain: getChain(chain), sellToken: token, buyToken: ETH_ADDRESS, sellAmount: total, taker: walletAddress });
+      values.set(key, price ? parseFloat(ethers.formatEther(price.buyAmount)) : null);
+    } catch (err: any) {
+      const msg = axios.isAxiosError(err) ? JSON.stringify(err.response?.data) : err.message;
+      logger.warn(`⚠️  Falha ao cotar ${token} (${chain}) para PnL não realizado: ${msg}`);
+      values.set(key, null);
+    }
+  }
+
+  return open.map(({ whale, position }) => {
+    const tokenValue = values.get(keyOf(position)) ?? null;
+    const total = totals.get(keyOf(position))!;
+    const valueEth = tokenValue === null || total === 0n
+      ? null
+      : tokenValue * (Number((BigInt(position.tokenAmount!) * 1_000_000n) / total) / 1_000_000);
+    const costEth = position.entryEth!;
+    return { whale, chain: position.chain, token: position.token, positionId: position.id, costEth, valueEth, pnlEth: valueEth === null ? null : valueEth - costEth };
+  });
+}
+
+// ─────────────────────────────────────────────
+// EXPORT CSV
+// ─────────────────────────────────────────────
+export function fillsToCsv(fills: Fill[] = loadFills()): string {
+  const pnl = new Map(realizeFills(fills).map((r) => [r.fill.txHash, r]));
+  const header = [
+    "date", "side", "whale", "whale_label", "token", "token_amount_raw", "eth", "gas_eth",
+    "eth_usd", "value_usd", "cost_basis_eth", "realized_pnl_eth", "realized_pnl_usd", "tx_hash", "position_id", "paper",
+  ];
+  const rows = fills.map((f) => {
+    const r = pnl.get(f.txHash);
+    return [
+      new Date(f.timestamp).toISOString(),
+      f.side,
+      f.whale,
+      `"${walletLabel(f.whale).replace(/"/g, '""')}"`,
+      f.token,
+      f.tokenAmount,
+      f.eth.toFixed(18),
+      f.gasEth.toFixed(18),
+      f.ethUsd === null ? "" : f.ethUsd.toFixed(2),
+      f.ethUsd === null ? "" : (f.eth * f.ethUsd).toFixed(2),
+      r ? r.costEth.toFixed(18) : "",
+      r ? r.pnlEth.toFixed(18) : "",
+      r && r.pnlUsd !== null ? r.pnlUsd.toFixed(2) : "",
+      f.txHash,
+      f.positionId ?? "",
+      String(f.paper),
+    ].join(",");
+  });
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
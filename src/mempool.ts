@@ -0,0 +1,124 @@
+import WebSocket from "ws";
+import { logger } from "./logger";
+
+// ─────────────────────────────────────────────
+// FEED DE TXS PENDENTES (mempool)
+// ─────────────────────────────────────────────
+// - padrão: alchemy_pendingTransactions no WS da chain, filtrado por fromAddress
+// - <CHAIN>_PENDING_WS_URL (PENDING_WS_URL na Base): nó/feed local que fale eth_subscribe("newPendingTransactions", true)
+//   (stand-in do feed do sequencer; o filtro por whale é feito aqui)
+
+export interface PendingTx {
+  hash: string;
+  from: string;
+  to: string | null;
+  input: string;
+  value: string;
+}
+
+const SUB_ID = 2;
+const RESUBSCRIBE_CHECK_MS = 60_000;
+
+// Um feed por chain
+const connected = new Map<string, boolean>();
+
+export function isMempoolEnabled(): boolean {
+  return process.env.MEMPOOL_MODE !== "false";
+}
+
+export function isPendingFeedConnected(chain: string): boolean {
+  return connected.get(chain) ?? false;
+}
+
+export function startPendingFeed(params: {
+  chain: string;
+  wsUrl: string;
+  pendingWsUrl?: string;
+  getWallets: () => string[];
+  onTx: (tx: PendingTx) => void;
+}): void {
+  const { chain } = params;
+  const localUrl = params.pendingWsUrl;
+  const url = localUrl || params.wsUrl;
+  let ws: WebSocket | null = null;
+  let subscribedKey = "";
+
+  const toPending = (tx: any): PendingTx | null => {
+    if (!tx?.hash || !tx?.from) return null;
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to ?? null,
+      input: tx.input ?? tx.data ?? "0x",
+      value: tx.value ?? "0x0",
+    };
+  };
+
+  const connect = () => {
+    const socket = new WebSocket(url);
+    ws = socket;
+    let subId: string | null = null;
+
+    socket.on("open", () => {
+      const wallets = params.getWallets();
+      subscribedKey = wallets.slice().sort().join(",");
+      socket.send(JSON.stringify({
+        jsonrpc: "2.0",
+        id: SUB_ID,
+        method: "eth_subscribe",
+        params: localUrl
+          ? ["newPendingTransactions", true]
+          : ["alchemy_pendingTransactions", { fromAddress: wallets, hashesOnly: false }],
+      }));
+      logger.info(`⚡ [MEMPOOL] ${chain}: feed de txs pendentes conectado (${localUrl ? "feed local" : "Alchemy"})`);
+    });
+
+    socket.on("message", (raw: WebSocket.RawData) => {
+      try {
+        const msg = JSON.parse(raw.toString());
+        if (msg.id === SUB_ID) {
+          if (msg.error) {
+            logger.warn(`⚠️  [MEMPOOL] ${chain}: subscription recusada: ${msg.error.message} — seguindo só com blocos`);
+            return;
+          }
+          subId = msg.result;
+          connected.set(chain, true);
+          return;
+        }
+        if (!subId || msg.params?.subscription !== subId) return;
+
+        // Feed local pode mandar só o hash; nesse caso não há calldata para decodificar
+        const tx = toPending(msg.params.result);
+        if (!tx) return;
+        const wallets = new Set(params.getWallets().map((w) => w.toLowerCase()));
+        if (!wallets.has(tx.from.toLowerCase())) return;
+        params.onTx(tx);
+      } catch (err: any) {
+        logger.error(`Erro ao processar mensagem do mempool: ${err.message}`);
+      }
+    });
+
+    socket.on("error", (err) => logger.error(`❌ [MEMPOOL] ${chain}: WebSocket error: ${err.message}`));
+    socket.on("close", () => {
+      connected.set(chain, false);
+      if (ws !== socket) return;
+      logger.warn(`🔌 [MEMPOOL] ${chain}: feed desconectado, reconectando em 3s...`);
+      setTimeout(connect, 3000);
+    });
+  };
+
+  setInterval(() => {
+    if (ws?.readyState === WebSocket.OPEN) ws.ping();
+  }, 30_000);
+
+  // O filtro fromAddress é fixado na subscription: refaz quando a lista de whales muda
+  setInterval(() => {
+    const key = params.getWallets().slice().sort().join(",");
+    if (!localUrl && ws && key !== subscribedKey) {
+      logger.info(`🔁 [MEMPOOL] ${chain}: lista de wallets mudou, refazendo subscription`);
+      ws.close();
+    }
+  }, RESUBSCRIBE_CHECK_MS);
+
+  connect();
+}
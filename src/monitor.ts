@@ -0,0 +1,197 @@
+import { ethers } from "ethers";
+import axios from "axios";
+import { logger } from "./logger";
+import { getProfile, getProfiles } from "./config";
+import { getAllPositions, updatePosition, Position } from "./positions";
+import { ETH_ADDRESS } from "./zerox";
+import { getBestPrice } from "./venues";
+import { TradeResult } from "./trader";
+import { getChain, isChainEnabled } from "./chains";
+
+// ─────────────────────────────────────────────
+// MONITOR DE POSIÇÕES — saídas próprias
+// ─────────────────────────────────────────────
+// Cota periodicamente cada posição aberta (0x price) e vende quando bate
+// stop-loss, take-profit, trailing stop, tempo máximo ou um degrau do ladder.
+
+export interface TakeProfitStep {
+  gainPct: number;  // ex: 100 = 2x
+  sellPct: number;  // % do que ainda está aberto
+}
+
+export interface ExitRules {
+  stopLossPct?: number;
+  takeProfitPct?: number;
+  trailingStopPct?: number;
+  trailingActivationPct: number;
+  maxHoldMinutes?: number;
+  tpLadder: TakeProfitStep[];
+}
+
+export interface ExitDecision {
+  fraction: number;
+  reason: string;
+  tpLevel?: number;
+}
+
+function envNumber(key: string): number | undefined {
+  const v = parseFloat(process.env[key] ?? "");
+  return Number.isFinite(v) && v > 0 ? v : undefined;
+}
+
+// "100:50,200:50" → vende 50% em 2x, mais 50% do restante em 3x
+export function parseLadder(raw: string | undefined): TakeProfitStep[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((s) => s.trim().split(":").map((v) => parseFloat(v)))
+    .filter(([gainPct, sellPct]) => gainPct > 0 && sellPct > 0)
+    .map(([gainPct, sellPct]) => ({ gainPct, sellPct: Math.min(sellPct, 100) }))
+    .sort((a, b) => a.gainPct - b.gainPct);
+}
+
+export function loadExitRules(): ExitRules {
+  return {
+    stopLossPct: envNumber("STOP_LOSS_PCT"),
+    takeProfitPct: envNumber("TAKE_PROFIT_PCT"),
+    trailingStopPct: envNumber("TRAILING_STOP_PCT"),
+    trailingActivationPct: envNumber("TRAILING_ACTIVATION_PCT") ?? 0,
+    maxHoldMinutes: envNumber("MAX_HOLD_MINUTES"),
+    tpLadder: parseLadder(process.env.TP_LADDER),
+  };
+}
+
+function hasAnyRule(rules: ExitRules): boolean {
+  return Boolean(
+    rules.stopLossPct || rules.takeProfitPct || rules.trailingStopPct || rules.maxHoldMinutes || rules.tpLadder.length
+  );
+}
+
+export function evaluateExit(position: Position, valueEth: number, rules: ExitRules, now = Date.now()): ExitDecision | null {
+  const entryEth = position.entryEth ?? 0;
+  if (entryEth <= 0) return null;
+  const pnlPct = (valueEth / entryEth - 1) * 100;
+
+  if (rules.stopLossPct !== undefined && pnlPct <= -rules.stopLossPct) {
+    return { fraction: 1, reason: `stop-loss (${pnlPct.toFixed(1)}%)` };
+  }
+
+  if (rules.maxHoldMinutes !== undefined && now - position.timestamp >= rules.maxHoldMinutes * 60_000) {
+    return { fraction: 1, reason: `tempo máximo de ${rules.maxHoldMinutes}min (${pnlPct.toFixed(1)}%)` };
+  }
+
+  if (rules.trailingStopPct !== undefined) {
+    const peak = Math.max(position.peakValueEth ?? 0, valueEth);
+    const peakGainPct = (peak / entryEth - 1) * 100;
+    const drawdownPct = (1 - valueEth / peak) * 100;
+    if (peakGainPct >= rules.trailingActivationPct && drawdownPct >= rules.trailingStopPct) {
+      return { fraction: 1, reason: `trailing stop (-${drawdownPct.toFixed(1)}% do topo, ${pnlPct.toFixed(1)}% total)` };
+    }
+  }
+
+  if (rules.takeProfitPct !== undefined && pnlPct >= rules.takeProfitPct) {
+    return { fraction: 1, reason: `take-profit (+${pnlPct.toFixed(1)}%)` };
+  }
+
+  const level = position.tpLevel ?? 0;
+  const step = rules.tpLadder[level];
+  if (step && pnlPct >= step.gainPct) {
+    return {
+      fraction: step.sellPct / 100,
+      reason: `take-profit degrau ${level + 1} (+${pnlPct.toFixed(1)}%, vendendo ${step.sellPct}%)`,
+      tpLevel: level + 1,
+    };
+  }
+
+  return null;
+}
+
+export type SellPositionFn = (whale: string, position: Position, decision: ExitDecision) => Promise<TradeResult | null>;
+
+const DEFAULT_RULES = loadExitRules();
+const MONITOR_INTERVAL_MS = (envNumber("MONITOR_INTERVAL_SEC") ?? 30) * 1000;
+
+let running = false;
+
+async function tick(walletAddress: string, sell: SellPositionFn): Promise<void> {
+  // Só posições com quantidade e custo conhecidos podem ser avaliadas
+  const tracked = getAllPositions().filter(({ position }) => position.tokenAmount && position.entryEth);
+  if (tracked.length === 0) return;
+
+  // Agrupa por chain + token: uma cotação por par
+  const byToken = new Map<string, { whale: string; position: Position }[]>();
+  for (const entry of tracked) {
+    const key = `${entry.position.chain}:${entry.position.token}`;
+    if (!byToken.has(key)) byToken.set(key, []);
+    byToken.get(key)!.push(entry);
+  }
+
+  for (const [key, entries] of byToken.entries()) {
+    const [chain, token] = key.split(":");
+    // Posições de chains fora de CHAINS ficam paradas até a chain voltar
+    if (!isChainEnabled(chain)) continue;
+    const total = entries.reduce((acc, { position }) => acc + BigInt(position.tokenAmount!), 0n);
+    if (total === 0n) continue;
+
+    let totalValueEth: number;
+    try {
+      const price = await getBestPrice({ chain: getChain(chain), sellToken: token, buyToken: ETH_ADDRESS, sellAmount: total, taker: walletAddress });
+      if (!price) {
+        logger.warn(`⚠️  [MONITOR] Sem liquidez para cotar ${token} (${chain})`);
+        continue;
+      }
+      totalValueEth = parseFloat(ethers.formatEther(price.buyAmount));
+    } catch (err: any) {
+      const msg = axios.isAxiosError(err) ? JSON.stringify(err.response?.data) : err.message;
+      logger.warn(`⚠️  [MONITOR] Falha ao cotar ${token} (${chain}): ${msg}`);
+      continue;
+    }
+
+    for (const { whale, position } of entries) {
+      const share = Number((BigInt(position.tokenAmount!) * 1_000_000n) / total) / 1_000_000;
+      const valueEth = totalValueEth * share;
+      const rules = { ...DEFAULT_RULES, ...getProfile(whale)?.exits };
+
+      const decision = evaluateExit(position, valueEth, rules);
+      if (valueEth > (position.peakValueEth ?? 0)) {
+        updatePosition(position.id, { peakValueEth: valueEth });
+      }
+      if (!decision) continue;
+
+      logger.info(`🎯 [MONITOR] ${token} em ${chain} (whale: ${whale}): ${decision.reason}`);
+      try {
+        // Venda já em andamento por outro caminho (whale, /sell, API): sellPosition devolve null
+        await sell(whale, position, decision);
+      } catch (err: any) {
+        logger.error(`❌ [MONITOR] Erro ao vender ${token}: ${err.message}`);
+      }
+    }
+  }
+}
+
+export function startPositionMonitor(params: { walletAddress: string; sell: SellPositionFn }): void {
+  const anyProfileRules = getProfiles().some((p) => p.exits && hasAnyRule({ ...DEFAULT_RULES, ...p.exits }));
+  if (!hasAnyRule(DEFAULT_RULES) && !anyProfileRules) {
+    logger.info("📉 Monitor de posições desligado (nenhuma regra de saída configurada)");
+    return;
+  }
+
+  logger.info(
+    `📉 Monitor de posições ativo a cada ${MONITOR_INTERVAL_MS / 1000}s ` +
+    `(SL: ${DEFAULT_RULES.stopLossPct ?? "—"}% | TP: ${DEFAULT_RULES.takeProfitPct ?? "—"}% | ` +
+    `trailing: ${DEFAULT_RULES.trailingStopPct ?? "—"}% | max hold: ${DEFAULT_RULES.maxHoldMinutes ?? "—"}min | ` +
+    `ladder: ${DEFAULT_RULES.tpLadder.map((s) => `+${s.gainPct}%→${s.sellPct}%`).join(", ") || "—"})`
+  );
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await tick(params.walletAddress, params.sell);
+    } catch (err: any) {
+      logger.error(`❌ [MONITOR] Erro no ciclo: ${err.message}`);
+    } finally {
+      running = false;
+    }
+  }, MONITOR_INTERVAL_MS);
+}
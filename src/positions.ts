@@ -0,0 +1,204 @@
+import { randomUUID } from "crypto";
+import { logger } from "./logger";
+import { getDb, DB_FILE } from "./db";
+
+// ─────────────────────────────────────────────
+// ESTRUTURA DE POSIÇÕES — FIFO por token
+// ─────────────────────────────────────────────
+export interface Position {
+  id: string;
+  chain: string;          // chave em chains.ts (ex: "base")
+  token: string;
+  whaleTx: string;
+  myTx: string;
+  amountUsd: number;
+  timestamp: number;
+  tokenAmount?: string;   // quantidade recebida (raw, ainda em aberto)
+  entryEth?: number;      // custo em ETH da parte ainda em aberto
+  peakValueEth?: number;  // maior valor cotado (trailing stop)
+  tpLevel?: number;       // degraus do take-profit ladder já executados
+  triggerWhales?: string[]; // modo consenso: whales que dispararam a compra
+  exitedWhales?: string[];  // modo consenso: dessas, as que já venderam
+}
+
+export type PositionBook = Map<string, Position[]>;
+
+export function newPositionId(): string {
+  return randomUUID();
+}
+
+interface PositionRow {
+  id: string;
+  chain: string;
+  whale: string;
+  token: string;
+  whale_tx: string;
+  my_tx: string;
+  amount_usd: number;
+  timestamp: number;
+  token_amount: string | null;
+  entry_eth: number | null;
+  peak_value_eth: number | null;
+  tp_level: number | null;
+  trigger_whales: string | null;
+  exited_whales: string | null;
+}
+
+function fromRow(row: PositionRow): Position {
+  return {
+    id: row.id,
+    chain: row.chain,
+    token: row.token,
+    whaleTx: row.whale_tx,
+    myTx: row.my_tx,
+    amountUsd: row.amount_usd,
+    timestamp: row.timestamp,
+    tokenAmount: row.token_amount ?? undefined,
+    entryEth: row.entry_eth ?? undefined,
+    peakValueEth: row.peak_value_eth ?? undefined,
+    tpLevel: row.tp_level ?? undefined,
+    triggerWhales: row.trigger_whales ? JSON.parse(row.trigger_whales) : undefined,
+    exitedWhales: row.exited_whales ? JSON.parse(row.exited_whales) : undefined,
+  };
+}
+
+function loadPositions(): PositionBook {
+  const rows = getDb().prepare("SELECT * FROM positions ORDER BY seq").all() as PositionRow[];
+  const map: PositionBook = new Map();
+  for (const row of rows) bookAdd(map, row.whale, fromRow(row));
+  logger.info(`📂 ${rows.length} posição(ões) carregada(s) de ${DB_FILE}`);
+  return map;
+}
+
+// ── Operações sobre um book qualquer (também usadas fora do bot, sem disco) ──
+
+export function bookAdd(book: PositionBook, whaleAddress: string, position: Position): void {
+  const addr = whaleAddress.toLowerCase();
+  if (!book.has(addr)) book.set(addr, []);
+  book.get(addr)!.push(position);
+}
+
+function matches(p: Position, token: string, chain?: string): boolean {
+  return p.token === token && (chain === undefined || p.chain === chain);
+}
+
+// Remove a primeira posição do token (FIFO) e retorna ela
+export function bookPop(book: PositionBook, whaleAddress: string, token: string, chain?: string): Position | null {
+  const positions = book.get(whaleAddress.toLowerCase());
+  if (!positions) return null;
+  const tok = token.toLowerCase();
+  const idx = positions.findIndex(p => matches(p, tok, chain));
+  if (idx === -1) return null;
+  const [removed] = positions.splice(idx, 1);
+  return removed;
+}
+
+export function bookPositionsForToken(book: PositionBook, whaleAddress: string, token: string, chain?: string): Position[] {
+  const tok = token.toLowerCase();
+  return (book.get(whaleAddress.toLowerCase()) ?? []).filter(p => matches(p, tok, chain));
+}
+
+// ── Book persistido do bot (cache em memória, SQLite como fonte de verdade) ──
+
+let openPositions: PositionBook | null = null;
+
+function book(): PositionBook {
+  if (!openPositions) openPositions = loadPositions();
+  return openPositions;
+}
+
+export function addPosition(whaleAddress: string, position: Position) {
+  const addr = whaleAddress.toLowerCase();
+  getDb().prepare(`
+    INSERT INTO positions (id, seq, chain, whale, token, whale_tx, my_tx, amount_usd, timestamp, token_amount, entry_eth, peak_value_eth, tp_level, trigger_whales, exited_whales)
+    VALUES (@id, (SELECT COALESCE(MAX(seq), 0) + 1 FROM positions), @chain, @whale, @token, @whaleTx, @myTx, @amountUsd, @timestamp, @tokenAmount, @entryEth, @peakValueEth, @tpLevel, @triggerWhales, @exitedWhales)
+  `).run({
+    id: position.id,
+    chain: position.chain,
+    whale: addr,
+    token: position.token,
+    whaleTx: position.whaleTx,
+    myTx: position.myTx,
+    amountUsd: position.amountUsd,
+    timestamp: position.timestamp,
+    tokenAmount: position.tokenAmount ?? null,
+    entryEth: position.entryEth ?? null,
+    peakValueEth: position.peakValueEth ?? null,
+    tpLevel: position.tpLevel ?? null,
+    triggerWhales: position.triggerWhales ? JSON.stringify(position.triggerWhales) : null,
+    exitedWhales: position.exitedWhales ? JSON.stringify(position.exitedWhales) : null,
+  });
+  bookAdd(book(), addr, position);
+  logger.info(`📌 Posição registrada: ${position.token} em ${position.chain} (whale: ${addr}) [total: ${book().get(addr)!.length}]`);
+}
+
+export function popPosition(whaleAddress: string, token: string, chain: string): Position | null {
+  const addr = whaleAddress.toLowerCase();
+  const tok = token.toLowerCase();
+  const first = bookPositionsForToken(book(), addr, tok, chain)[0];
+  if (!first) return null;
+  getDb().prepare("DELETE FROM positions WHERE id = ?").run(first.id);
+  bookPop(book(), addr, tok, chain);
+  logger.info(`🗑️  Posição removida: ${tok} em ${chain} (whale: ${addr}) [restantes: ${countPositions(addr, tok, chain)}]`);
+  return first;
+}
+
+// Retorna todas as posições de um token específico (em uma chain, se informada)
+export function getPositionsForToken(whaleAddress: string, token: string, chain?: string): Position[] {
+  return bookPositionsForToken(book(), whaleAddress, token, chain);
+}
+
+// Retorna tokens únicos com posição aberta
+export function getUniqueTokens(whaleAddress: string): string[] {
+  const positions = book().get(whaleAddress.toLowerCase()) ?? [];
+  return [...new Set(positions.map(p => p.token))];
+}
+
+// Conta quantas posições abertas tem de um token
+export function countPositions(whaleAddress: string, token: string, chain?: string): number {
+  return getPositionsForToken(whaleAddress, token, chain).length;
+}
+
+// Todas as posições abertas, de todas as whales
+export function getAllPositions(): { whale: string; position: Position }[] {
+  const all: { whale: string; position: Position }[] = [];
+  for (const [whale, positions] of book().entries()) {
+    for (const position of positions) all.push({ whale, position });
+  }
+  return all;
+}
+
+export function findPosition(id: string): { whale: string; position: Position } | null {
+  return getAllPositions().find(p => p.position.id === id) ?? null;
+}
+
+export function updatePosition(id: string, patch: Partial<Omit<Position, "id">>): Position | null {
+  const found = findPosition(id);
+  if (!found) return null;
+  const next = { ...found.position, ...patch };
+  getDb().prepare(`
+    UPDATE positions SET token_amount = @tokenAmount, entry_eth = @entryEth, peak_value_eth = @peakValueEth,
+      tp_level = @tpLevel, amount_usd = @amountUsd, exited_whales = @exitedWhales
+    WHERE id = @id
+  `).run({
+    id,
+    tokenAmount: next.tokenAmount ?? null,
+    entryEth: next.entryEth ?? null,
+    peakValueEth: next.peakValueEth ?? null,
+    tpLevel: next.tpLevel ?? null,
+    amountUsd: next.amountUsd,
+    exitedWhales: next.exitedWhales ? JSON.stringify(next.exitedWhales) : null,
+  });
+  Object.assign(found.position, patch);
+  return found.position;
+}
+
+export function removePosition(id: string): Position | null {
+  const found = findPosition(id);
+  if (!found) return null;
+  getDb().prepare("DELETE FROM positions WHERE id = ?").run(id);
+  const positions = book().get(found.whale)!;
+  positions.splice(positions.indexOf(found.position), 1);
+  logger.info(`🗑️  Posição removida: ${found.position.token} (whale: ${found.whale}) [id: ${id}]`);
+  return found.position;
+}
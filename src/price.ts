@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { ChainConfig, getChain, getProvider } from "./chains";
+
+// ─────────────────────────────────────────────
+// PREÇO ETH/USD — fonte única (sizing, saldo, notificações, ledger)
+// ─────────────────────────────────────────────
+// 1. Feed Chainlink ETH/USD da chain (rejeitado se updatedAt for mais velho que PRICE_MAX_AGE_SEC)
+// 2. Fallback: cotação de 1 WETH → USDC no QuoterV2 da Uniswap V3 (fee 0.05% / 0.3%)
+// Cache de PRICE_TTL_SEC. Se as duas fontes falharem, o último preço vale até
+// PRICE_MAX_AGE_SEC; depois disso getEthPrice() lança erro em vez de chutar um valor.
+
+const PRICE_TTL_MS = parseInt(process.env.PRICE_TTL_SEC ?? "30", 10) * 1000;
+const PRICE_MAX_AGE_SEC = parseInt(process.env.PRICE_MAX_AGE_SEC ?? "3600", 10);
+const POOL_FEES = [500, 3000];
+
+const FEED_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+const QUOTER_ABI = [
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+];
+
+export type PriceSource = Pick<ChainConfig, "name" | "weth" | "quoterV2" | "assets" | "ethUsdFeed">;
+
+interface CachedPrice {
+  usd: number;
+  source: string;
+  fetchedAt: number;   // ms
+  observedAt: number;  // ms — updatedAt do feed ou hora da cotação
+}
+
+let cached: CachedPrice | null = null;
+let inFlight: Promise<CachedPrice> | null = null;
+
+async function fromChainlink(chain: PriceSource, provider: ethers.Provider): Promise<{ usd: number; observedAt: number }> {
+  if (!chain.ethUsdFeed) throw new Error("sem feed Chainlink");
+  const feed = new ethers.Contract(chain.ethUsdFeed, FEED_ABI, provider);
+  const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+  const answer: bigint = round.answer;
+  const updatedAt = Number(round.updatedAt);
+  if (answer <= 0n) throw new Error(`resposta inválida (${answer})`);
+  const age = Math.floor(Date.now() / 1000) - updatedAt;
+  if (age > PRICE_MAX_AGE_SEC) throw new Error(`feed parado há ${age}s`);
+  return { usd: parseFloat(ethers.formatUnits(answer, decimals)), observedAt: updatedAt * 1000 };
+}
+
+async function fromPool(chain: PriceSource, provider: ethers.Provider): Promise<{ usd: number; observedAt: number }> {
+  const usdc = chain.assets.find((a) => a.symbol === "USDC");
+  if (!usdc || !chain.quoterV2) throw new Error("sem USDC/QuoterV2 na chain");
+  const quoter = new ethers.Contract(chain.quoterV2, QUOTER_ABI, provider);
+  const quotes = await Promise.all(POOL_FEES.map(async (fee) => {
+    try {
+      const res = await quoter.quoteExactInputSingle.staticCall({ tokenIn: chain.weth, tokenOut: usdc.address, amountIn: ethers.parseEther("1"), fee, sqrtPriceLimitX96: 0 });
+      return res[0] as bigint;
+    } catch {
+      return 0n;
+    }
+  }));
+  const best = quotes.reduce((a, b) => (b > a ? b : a), 0n);
+  if (best === 0n) throw new Error("pool WETH/USDC sem cotação");
+  return { usd: parseFloat(ethers.formatUnits(best, usdc.decimals)), observedAt: Date.now() };
+}
+
+// Leitura direta, sem cache (backtest e o refresh do cache)
+export async function readEthPrice(chain: PriceSource, provider: ethers.Provider): Promise<{ usd: number; source: string; observedAt: number }> {
+  try {
+    return { ...(await fromChainlink(chain, provider)), source: "chainlink" };
+  } catch (err: any) {
+    logger.warn(`⚠️  Chainlink ETH/USD (${chain.name}) indisponível: ${err.shortMessage ?? err.message} — usando pool WETH/USDC`);
+  }
+  return { ...(await fromPool(chain, provider)), source: "pool" };
+}
+
+async function refresh(chain: ChainConfig): Promise<CachedPrice> {
+  const price = await readEthPrice(chain, getProvider(chain));
+  cached = { ...price, fetchedAt: Date.now() };
+  return cached;
+}
+
+// Preço ETH/USD com cache. `chain` só escolhe de onde ler (padrão: primeira chain de CHAINS)
+export async function getEthPrice(chain?: ChainConfig): Promise<number> {
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) return cached.usd;
+  if (!inFlight) inFlight = refresh(chain ?? getChain()).finally(() => { inFlight = null; });
+  try {
+    return (await inFlight).usd;
+  } catch (err: any) {
+    if (cached && Date.now() - cached.observedAt <= PRICE_MAX_AGE_SEC * 1000) {
+      logger.warn(`⚠️  Falha ao atualizar preço ETH (${err.shortMessage ?? err.message}), usando o último: $${cached.usd.toFixed(2)}`);
+      return cached.usd;
+    }
+    throw new Error(`Preço ETH/USD indisponível: ${err.shortMessage ?? err.message}`);
+  }
+}
+
+// Último preço conhecido, sem I/O (null antes da primeira leitura)
+export function lastEthPrice(): number | null {
+  return cached?.usd ?? null;
+}
@@ -0,0 +1,112 @@
+import "dotenv/config";
+import fs from "fs";
+import http from "http";
+import axios from "axios";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+
+// ─────────────────────────────────────────────
+// RPC PRIVADO LOCAL — substituto de um endpoint protegido pra testes
+// ─────────────────────────────────────────────
+// npm run private-rpc -- [--port 8546] [--upstream http://127.0.0.1:8545] [--delay 0] [--drop]
+//
+// Recebe eth_sendRawTransaction, decodifica e loga a tx, espera --delay ms e repassa pro
+// upstream (ex: fork no Anvil). Qualquer outro método é só repassado.
+// --drop aceita a tx e não repassa (tx "presa": exercita speed-up e cancelamento).
+// No bot: BASE_PRIVATE_RPC_URL=http://127.0.0.1:8546 e SUBMIT_BUY_MODE=private
+
+interface RpcRequest {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  method: string;
+  params?: any[];
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[key] = next && !next.startsWith("--") ? (i++, next) : "true";
+  }
+  return args;
+}
+
+function describeTx(raw: string): string {
+  try {
+    const tx = ethers.Transaction.from(raw);
+    const fee = tx.maxFeePerGas !== null ? `maxFee ${ethers.formatUnits(tx.maxFeePerGas, "gwei")} gwei` : `gasPrice ${ethers.formatUnits(tx.gasPrice ?? 0n, "gwei")} gwei`;
+    return `${tx.hash} de ${tx.from} → ${tx.to} (nonce ${tx.nonce}, ${ethers.formatEther(tx.value)} ETH, ${fee}, selector ${tx.data.slice(0, 10)})`;
+  } catch (err: any) {
+    return `tx inválida (${err.message})`;
+  }
+}
+
+async function forward(upstream: string, req: RpcRequest): Promise<any> {
+  try {
+    const res = await axios.post(upstream, req, { timeout: 30_000 });
+    return res.data;
+  } catch (err: any) {
+    return { jsonrpc: "2.0", id: req.id, error: { code: -32603, message: `upstream: ${err.response?.data?.error?.message ?? err.message}` } };
+  }
+}
+
+async function handle(req: RpcRequest, opts: { upstream: string; delayMs: number; drop: boolean }): Promise<any> {
+  if (req.method !== "eth_sendRawTransaction") return forward(opts.upstream, req);
+
+  const raw = req.params?.[0] ?? "";
+  logger.info(`🔒 eth_sendRawTransaction: ${describeTx(raw)}`);
+  if (opts.drop) {
+    logger.warn("🕳️  --drop: tx aceita e não repassada");
+    return { jsonrpc: "2.0", id: req.id, result: ethers.keccak256(raw) };
+  }
+  if (opts.delayMs > 0) await new Promise((r) => setTimeout(r, opts.delayMs));
+  const res = await forward(opts.upstream, req);
+  if (res?.error) logger.warn(`⚠️  Upstream rejeitou a tx: ${res.error.message}`);
+  return res;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const port = parseInt(args.port ?? "8546", 10);
+  const opts = {
+    upstream: args.upstream ?? "http://127.0.0.1:8545",
+    delayMs: parseInt(args.delay ?? "0", 10),
+    drop: args.drop === "true",
+  };
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      let payload: RpcRequest | RpcRequest[];
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "parse error" } }));
+        return;
+      }
+      // ethers manda requisições em lote (array)
+      const result = Array.isArray(payload)
+        ? await Promise.all(payload.map((r) => handle(r, opts)))
+        : await handle(payload, opts);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(result));
+    });
+  });
+
+  server.listen(port, "127.0.0.1", () => {
+    logger.info(`🔒 RPC privado local em http://127.0.0.1:${port} → upstream ${opts.upstream}${opts.drop ? " (drop)" : opts.delayMs ? ` (delay ${opts.delayMs}ms)` : ""}`);
+  });
+}
+
+if (require.main === module) {
+  if (!fs.existsSync("logs")) fs.mkdirSync("logs");
+  main();
+}
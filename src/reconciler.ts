@@ -0,0 +1,190 @@
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { DRY_RUN } from "./config";
+import { getAllPositions, updatePosition, removePosition, Position } from "./positions";
+import { loadFills } from "./ledger";
+import { notifyReconcile, escapeHtml } from "./telegram";
+
+// ─────────────────────────────────────────────
+// RECONCILIAÇÃO DE POSIÇÕES x SALDO ON-CHAIN
+// ─────────────────────────────────────────────
+// Compara o que o bot acha que tem (positions) com balanceOf da wallet:
+// - saldo zerado          → remove as posições do token
+// - saldo menor           → reduz tokenAmount/entryEth proporcionalmente
+// - posições sem quantidade (antigas) → recebem o saldo atual
+// - saldo maior / token sem posição → só sinaliza (no Telegram, uma vez por alerta)
+
+const TOLERANCE_PCT = parseFloat(process.env.RECONCILE_TOLERANCE_PCT ?? "2");
+const INTERVAL_MS = parseFloat(process.env.RECONCILE_INTERVAL_MIN ?? "30") * 60_000;
+const LOOKBACK_BLOCKS = parseInt(process.env.RECONCILE_LOOKBACK_BLOCKS ?? "50000", 10);
+const RECENT_MS = 2 * 60_000; // posições recém-abertas podem estar no meio de um trade
+
+const ERC20_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
+
+export interface ReconcileReport {
+  checked: number;
+  fixed: string[];
+  flagged: string[];
+}
+
+async function tokenMeta(token: string, provider: ethers.JsonRpcProvider): Promise<{ decimals: number; symbol: string }> {
+  const c = new ethers.Contract(token, ERC20_ABI, provider);
+  const [decimals, symbol] = await Promise.all([
+    c.decimals().then(Number).catch(() => 18),
+    c.symbol().catch(() => token.slice(0, 8)),
+  ]);
+  return { decimals, symbol: escapeHtml(String(symbol)) };
+}
+
+// Tokens que a wallet possivelmente segura: Alchemy, ou Transfers recebidos recentemente
+async function discoverHeldTokens(wallet: string, provider: ethers.JsonRpcProvider): Promise<Set<string>> {
+  const tokens = new Set<string>();
+  try {
+    const res = await provider.send("alchemy_getTokenBalances", [wallet, "erc20"]);
+    for (const t of res?.tokenBalances ?? []) {
+      if (t.tokenBalance && BigInt(t.tokenBalance) > 0n) tokens.add(t.contractAddress.toLowerCase());
+    }
+    return tokens;
+  } catch {
+    // RPC sem API da Alchemy
+  }
+
+  try {
+    const latest = await provider.getBlockNumber();
+    const logs = await provider.getLogs({
+      fromBlock: Math.max(latest - LOOKBACK_BLOCKS, 0),
+      toBlock: latest,
+      topics: [ethers.id("Transfer(address,address,uint256)"), null, ethers.zeroPadValue(wallet, 32)],
+    });
+    for (const log of logs) tokens.add(log.address.toLowerCase());
+  } catch (err: any) {
+    logger.warn(`⚠️  [RECONCILE] Não foi possível listar tokens recebidos: ${err.message}`);
+  }
+  return tokens;
+}
+
+export async function reconcilePositions(params: {
+  chain: string;
+  walletAddress: string;
+  provider: ethers.JsonRpcProvider;
+  ignoreTokens?: string[];
+}): Promise<ReconcileReport> {
+  const { chain, walletAddress, provider } = params;
+  const ignore = new Set((params.ignoreTokens ?? []).map((t) => t.toLowerCase()));
+  const report: ReconcileReport = { checked: 0, fixed: [], flagged: [] };
+
+  const byToken = new Map<string, { whale: string; position: Position }[]>();
+  for (const entry of getAllPositions()) {
+    if (entry.position.chain !== chain) continue;
+    if (!byToken.has(entry.position.token)) byToken.set(entry.position.token, []);
+    byToken.get(entry.position.token)!.push(entry);
+  }
+
+  for (const [token, entries] of byToken.entries()) {
+    if (entries.some(({ position }) => Date.now() - position.timestamp < RECENT_MS)) continue;
+
+    let balance: bigint;
+    try {
+      balance = await new ethers.Contract(token, ERC20_ABI, provider).balanceOf(walletAddress);
+    } catch (err: any) {
+      logger.warn(`⚠️  [RECONCILE] balanceOf falhou para ${token}: ${err.message}`);
+      continue;
+    }
+    report.checked++;
+    const { decimals, symbol } = await tokenMeta(token, provider);
+    const fmt = (v: bigint) => parseFloat(ethers.formatUnits(v, decimals)).toFixed(4);
+
+    if (balance === 0n) {
+      for (const { position } of entries) removePosition(position.id);
+      report.fixed.push(`${symbol}: saldo zerado, ${entries.length} posição(ões) removida(s)`);
+      continue;
+    }
+
+    const legacy = entries.filter(({ position }) => !position.tokenAmount);
+    const tracked = entries.filter(({ position }) => position.tokenAmount);
+    const trackedTotal = tracked.reduce((acc, { position }) => acc + BigInt(position.tokenAmount!), 0n);
+
+    if (legacy.length > 0) {
+      // Posições antigas recebem o que sobrar do saldo, em partes iguais
+      const rest = balance > trackedTotal ? balance - trackedTotal : 0n;
+      if (rest > 0n) {
+        const share = rest / BigInt(legacy.length);
+        for (const { position } of legacy) updatePosition(position.id, { tokenAmount: share.toString() });
+        report.fixed.push(`${symbol}: ${legacy.length} posição(ões) antiga(s) recebeu(ram) ${fmt(rest)} do saldo`);
+      }
+      continue;
+    }
+    if (trackedTotal === 0n) {
+      report.flagged.push(`${symbol}: saldo ${fmt(balance)} sem quantidade rastreada (${tracked.length} posição(ões) com 0)`);
+      continue;
+    }
+
+    const diffPct = Number(((balance - trackedTotal) * 10000n) / trackedTotal) / 100;
+    if (diffPct < -TOLERANCE_PCT) {
+      const keep = Number((balance * 1_000_000n) / trackedTotal) / 1_000_000;
+      for (const { position } of tracked) {
+        updatePosition(position.id, {
+          tokenAmount: ((BigInt(position.tokenAmount!) * balance) / trackedTotal).toString(),
+          entryEth: position.entryEth !== undefined ? position.entryEth * keep : undefined,
+          peakValueEth: position.peakValueEth !== undefined ? position.peakValueEth * keep : undefined,
+        });
+      }
+      report.fixed.push(`${symbol}: saldo ${fmt(balance)} < rastreado ${fmt(trackedTotal)} (${diffPct.toFixed(1)}%), posições ajustadas`);
+    } else if (diffPct > TOLERANCE_PCT) {
+      report.flagged.push(`${symbol}: saldo ${fmt(balance)} > rastreado ${fmt(trackedTotal)} (+${diffPct.toFixed(1)}%)`);
+    }
+  }
+
+  // Tokens na wallet sem nenhuma posição registrada
+  const candidates = await discoverHeldTokens(walletAddress, provider);
+  for (const f of loadFills()) if (f.chain === chain) candidates.add(f.token);
+  for (const token of candidates) {
+    if (byToken.has(token) || ignore.has(token)) continue;
+    try {
+      const balance: bigint = await new ethers.Contract(token, ERC20_ABI, provider).balanceOf(walletAddress);
+      if (balance === 0n) continue;
+      const { decimals, symbol } = await tokenMeta(token, provider);
+      report.flagged.push(`${symbol} (<code>${token}</code>): saldo ${parseFloat(ethers.formatUnits(balance, decimals)).toFixed(4)} sem posição registrada`);
+    } catch {
+      // contrato que não é ERC20
+    }
+  }
+
+  logger.info(`🔍 [RECONCILE] ${chain}: ${report.checked} token(s) verificado(s), ${report.fixed.length} ajuste(s), ${report.flagged.length} alerta(s)`);
+  for (const line of [...report.fixed, ...report.flagged]) logger.info(`   → ${line}`);
+  return report;
+}
+
+export function startReconciler(params: { chain: string; walletAddress: string; provider: ethers.JsonRpcProvider; ignoreTokens?: string[] }): void {
+  if (DRY_RUN) {
+    logger.info("🔍 Reconciliação desligada no modo paper (não há saldo on-chain)");
+    return;
+  }
+
+  let running = false;
+  // Alertas da última passada: o mesmo alerta só volta pro Telegram se mudar ou sumir e reaparecer
+  let lastFlagged = new Set<string>();
+  const run = async (startup: boolean) => {
+    if (running) return;
+    running = true;
+    try {
+      const report = await reconcilePositions(params);
+      const newFlags = report.flagged.filter((line) => !lastFlagged.has(line));
+      lastFlagged = new Set(report.flagged);
+      if (startup || report.fixed.length > 0 || newFlags.length > 0) {
+        await notifyReconcile({ ...report, flagged: startup ? report.flagged : newFlags, chain: params.chain, startup });
+      }
+    } catch (err: any) {
+      logger.error(`❌ [RECONCILE] Erro em ${params.chain}: ${err.message}`);
+    } finally {
+      running = false;
+    }
+  };
+
+  run(true);
+  setInterval(() => run(false), INTERVAL_MS);
+}
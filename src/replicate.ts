@@ -0,0 +1,69 @@
+import { decodeV3Path, ETH_ADDRESS, SwapRoute } from "./decoder";
+import { ExecutionVenue, VenueRequest, VenueQuote } from "./venues";
+import { buildV3Quote, quotePath } from "./uniswap";
+import { buildAeroQuote, quoteRoutes } from "./aerodrome";
+
+// ─────────────────────────────────────────────
+// VENUE "WHALE": REPLICA A ROTA EXATA DA WHALE
+// ─────────────────────────────────────────────
+// Mesmos pools e fee tiers que a whale usou (decodificados do calldata), com
+// destinatário = nossa wallet e amountIn do nosso tamanho. O mínimo de saída vem
+// da cotação da própria rota, não do mínimo da whale (que vale pro preço antes dela).
+// Uniswap V3: executa no SwapRouter02 da chain, mesmo que a whale tenha usado o
+//   Universal Router ou a 0x (o path identifica os pools).
+// Aerodrome: executa no Router v2 da chain com as mesmas Route (pool volatile/stable).
+// Só vale quando a rota liga exatamente os tokens que a gente quer trocar.
+
+function normalize(token: string, weth: string): string {
+  const t = token.toLowerCase();
+  return t === ETH_ADDRESS ? weth.toLowerCase() : t;
+}
+
+function routeEnds(route: SwapRoute): [string, string] {
+  if (route.kind === "uniswap-v3") {
+    const tokens = decodeV3Path(route.path);
+    return [tokens[0], tokens[tokens.length - 1]];
+  }
+  return [route.routes[0].from.toLowerCase(), route.routes[route.routes.length - 1].to.toLowerCase()];
+}
+
+function usableRoute(req: VenueRequest): SwapRoute | null {
+  const route = req.route;
+  if (!route) return null;
+  if (route.kind === "uniswap-v3" && !(req.chain.swapRouter02 && req.chain.quoterV2)) return null;
+  if (route.kind === "aerodrome" && (!req.chain.aerodrome || route.routes.length === 0)) return null;
+  const [from, to] = routeEnds(route);
+  const weth = req.chain.weth;
+  return from === normalize(req.sellToken, weth) && to === normalize(req.buyToken, weth) ? route : null;
+}
+
+async function quoteRoute(req: VenueRequest, route: SwapRoute): Promise<bigint | null> {
+  return route.kind === "uniswap-v3" ? quotePath(req, route.path) : quoteRoutes(req, route.routes);
+}
+
+function spenderFor(req: VenueRequest, route: SwapRoute): string | null {
+  if (req.sellToken.toLowerCase() === ETH_ADDRESS) return null;
+  return route.kind === "uniswap-v3" ? req.chain.swapRouter02 : req.chain.aerodrome!.router;
+}
+
+export const whaleRouteVenue: ExecutionVenue = {
+  name: "whale",
+  supports: () => true,
+
+  async price(req): Promise<VenueQuote | null> {
+    const route = usableRoute(req);
+    if (!route) return null;
+    const amountOut = await quoteRoute(req, route);
+    return amountOut ? { venue: "whale", buyAmount: amountOut, spender: spenderFor(req, route) } : null;
+  },
+
+  async quote(req, slippageBps): Promise<VenueQuote | null> {
+    const route = usableRoute(req);
+    if (!route) return null;
+    const amountOut = await quoteRoute(req, route);
+    if (!amountOut) return null;
+    return route.kind === "uniswap-v3"
+      ? buildV3Quote(req, { path: route.path, amountOut }, slippageBps, "whale")
+      : buildAeroQuote(req, { routes: route.routes, amountOut }, slippageBps, "whale");
+  },
+};
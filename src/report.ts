@@ -0,0 +1,113 @@
+import "dotenv/config";
+import fs from "fs";
+import { logger } from "./logger";
+import { walletLabel } from "./config";
+import { DB_FILE } from "./db";
+import { loadFills, summarizePnl, getUnrealizedPnl, fillsToCsv, PnlSummary } from "./ledger";
+import { getAllWhaleStats, formatDuration } from "./analytics";
+
+// ─────────────────────────────────────────────
+// RELATÓRIOS DO LEDGER
+// ─────────────────────────────────────────────
+// npm run report -- pnl [--live]        PnL realizado (e não realizado com --live)
+// npm run report -- csv [--out x.csv]   exporta todos os fills (imposto de renda)
+// npm run report -- whales [--days N]   desempenho das whales e custo de copiar (padrão: ANALYTICS_WINDOW_DAYS)
+
+function row(name: string, s: PnlSummary) {
+  return {
+    nome: name,
+    compras: s.buys,
+    vendas: s.sells,
+    "investido (ETH)": s.investedEth.toFixed(6),
+    "realizado (ETH)": s.realizedEth.toFixed(6),
+    "realizado (USD)": s.realizedUsd.toFixed(2),
+    "gas (ETH)": s.gasEth.toFixed(6),
+  };
+}
+
+async function pnl(live: boolean): Promise<void> {
+  const { overall, byWhale, byToken } = summarizePnl(loadFills());
+  console.log(`\n📒 Ledger ${DB_FILE}\n`);
+  console.log("Por whale:");
+  console.table([...byWhale.entries()].map(([w, s]) => row(walletLabel(w), s)));
+  console.log("Por token:");
+  console.table([...byToken.entries()].map(([t, s]) => row(t, s)));
+  console.table([row("TOTAL", overall)]);
+
+  if (!live) return;
+  const open = await getUnrealizedPnl(process.env.MY_WALLET_ADDRESS!);
+  console.log("Posições abertas (cotação 0x):");
+  console.table(open.map((p) => ({
+    whale: walletLabel(p.whale),
+    token: p.token,
+    "custo (ETH)": p.costEth.toFixed(6),
+    "valor (ETH)": p.valueEth?.toFixed(6) ?? "sem cotação",
+    "PnL (ETH)": p.pnlEth?.toFixed(6) ?? "—",
+  })));
+  const unrealized = open.reduce((acc, p) => acc + (p.pnlEth ?? 0), 0);
+  console.log(`\n💰 Realizado: ${overall.realizedEth.toFixed(6)} ETH | Não realizado: ${unrealized.toFixed(6)} ETH | Total: ${(overall.realizedEth + unrealized).toFixed(6)} ETH\n`);
+}
+
+function fmtPct(v: number | null): string {
+  return v === null ? "—" : v.toFixed(2);
+}
+
+function whales(days?: number): void {
+  const since = days ? Date.now() - days * 86_400_000 : undefined;
+  const stats = getAllWhaleStats(since);
+  console.log(`\n🐋 Whales (${DB_FILE})\n`);
+  console.table(stats.map((s) => ({
+    whale: walletLabel(s.whale),
+    swaps: s.detected,
+    fechados: s.closed,
+    "win rate %": fmtPct(s.winRate),
+    "retorno médio %": fmtPct(s.avgReturnPct),
+    hold: formatDuration(s.avgHoldMs),
+    "drawdown pp": s.maxDrawdownPct.toFixed(2),
+  })));
+  console.log("Cópia (nossos fills vs o fill da whale na mesma tx):");
+  console.table(stats.filter((s) => s.copy.entries || s.copy.exits).map((s) => ({
+    whale: walletLabel(s.whale),
+    entradas: s.copy.entries,
+    "slippage entrada %": fmtPct(s.copy.entrySlippagePct),
+    saídas: s.copy.exits,
+    "slippage saída %": fmtPct(s.copy.exitSlippagePct),
+    atraso: formatDuration(s.copy.latencyMs),
+    "nosso retorno %": fmtPct(s.copy.ourAvgReturnPct),
+    "retorno da whale %": fmtPct(s.avgReturnPct),
+  })));
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const outIdx = rest.indexOf("--out");
+
+  switch (command) {
+    case "pnl":
+      await pnl(rest.includes("--live"));
+      break;
+    case "csv": {
+      const csv = fillsToCsv(loadFills());
+      if (outIdx !== -1 && rest[outIdx + 1]) {
+        fs.writeFileSync(rest[outIdx + 1], csv);
+        logger.info(`💾 CSV salvo em ${rest[outIdx + 1]}`);
+      } else {
+        process.stdout.write(csv);
+      }
+      break;
+    }
+    case "whales": {
+      const daysIdx = rest.indexOf("--days");
+      whales(daysIdx !== -1 ? parseFloat(rest[daysIdx + 1]) : undefined);
+      break;
+    }
+    default:
+      console.error("Uso: npm run report -- pnl [--live] | csv [--out arquivo.csv] | whales [--days N]");
+      process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  logger.error(`❌ Relatório falhou: ${err.message}`);
+  process.exit(1);
+});
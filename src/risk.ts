@@ -0,0 +1,141 @@
+import { logger } from "./logger";
+import { DRY_RUN } from "./config";
+import { getDb, getSetting, setSetting } from "./db";
+import { getAllPositions, Position } from "./positions";
+import { loadFills, realizeFills } from "./ledger";
+import { isPaused, setPaused } from "./control";
+import { notifyCircuitBreaker } from "./telegram";
+import { lastEthPrice } from "./price";
+
+// ─────────────────────────────────────────────
+// RISCO — limites de exposição e circuit breaker de perda
+// ─────────────────────────────────────────────
+// Limites checados antes de cada compra (0 / ausente = sem limite):
+// RISK_MAX_OPEN_POSITIONS  → posições abertas ao mesmo tempo
+// RISK_MAX_TOKEN_USD       → exposição num mesmo token (todas as whales, mesma chain)
+// RISK_MAX_WHALE_USD       → exposição nas posições de uma whale
+// RISK_MAX_TOTAL_USD       → capital total em posições abertas
+// RISK_MAX_BUYS_PER_HOUR   → compras executadas na última hora
+// Exposição = custo em ETH da parte ainda aberta x preço atual do ETH (amountUsd se não houver).
+//
+// RISK_MAX_LOSS_USD → perda realizada máxima na janela RISK_LOSS_WINDOW (`day` = desde 00:00 UTC,
+// ou um número de horas pra janela móvel). Estourou: pausa as compras e avisa no Telegram.
+// Depois do /resume só contam as perdas novas.
+
+function envNumber(key: string): number {
+  const value = parseFloat(process.env[key] ?? "");
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+const LIMITS = {
+  maxOpenPositions: envNumber("RISK_MAX_OPEN_POSITIONS"),
+  maxTokenUsd: envNumber("RISK_MAX_TOKEN_USD"),
+  maxWhaleUsd: envNumber("RISK_MAX_WHALE_USD"),
+  maxTotalUsd: envNumber("RISK_MAX_TOTAL_USD"),
+  maxBuysPerHour: envNumber("RISK_MAX_BUYS_PER_HOUR"),
+  maxLossUsd: envNumber("RISK_MAX_LOSS_USD"),
+};
+
+const LOSS_WINDOW = (process.env.RISK_LOSS_WINDOW ?? "day").toLowerCase();
+const LOSS_WINDOW_HOURS = LOSS_WINDOW === "day" ? null : parseFloat(LOSS_WINDOW) || 24;
+
+const BREAKER_KEY = "risk_breaker_tripped_at";
+
+function exposureUsd(position: Position, ethPriceUsd: number): number {
+  return position.entryEth !== undefined ? position.entryEth * ethPriceUsd : position.amountUsd;
+}
+
+function buysLastHour(): number {
+  const row = getDb()
+    .prepare("SELECT COUNT(*) AS n FROM trades WHERE side = 'buy' AND paper = ? AND timestamp > ?")
+    .get(DRY_RUN ? 1 : 0, Date.now() - 3_600_000) as { n: number };
+  return row.n;
+}
+
+// Motivo do bloqueio, ou null se a compra cabe em todos os limites
+export function checkBuyRisk(params: {
+  chain: string;
+  token: string;
+  whale: string;
+  amountUsd: number;
+  ethPriceUsd: number;
+}): string | null {
+  const token = params.token.toLowerCase();
+  const whale = params.whale.toLowerCase();
+  const open = getAllPositions();
+  const usd = (list: typeof open) => list.reduce((acc, { position }) => acc + exposureUsd(position, params.ethPriceUsd), 0);
+
+  if (LIMITS.maxOpenPositions && open.length >= LIMITS.maxOpenPositions) {
+    return `${open.length} posições abertas (máx ${LIMITS.maxOpenPositions})`;
+  }
+  if (LIMITS.maxTokenUsd) {
+    const current = usd(open.filter(({ position }) => position.chain === params.chain && position.token === token));
+    if (current + params.amountUsd > LIMITS.maxTokenUsd) {
+      return `exposição no token $${current.toFixed(2)} + $${params.amountUsd.toFixed(2)} > máx $${LIMITS.maxTokenUsd}`;
+    }
+  }
+  if (LIMITS.maxWhaleUsd) {
+    const current = usd(open.filter((p) => p.whale === whale));
+    if (current + params.amountUsd > LIMITS.maxWhaleUsd) {
+      return `exposição na whale $${current.toFixed(2)} + $${params.amountUsd.toFixed(2)} > máx $${LIMITS.maxWhaleUsd}`;
+    }
+  }
+  if (LIMITS.maxTotalUsd) {
+    const current = usd(open);
+    if (current + params.amountUsd > LIMITS.maxTotalUsd) {
+      return `capital em posições $${current.toFixed(2)} + $${params.amountUsd.toFixed(2)} > máx $${LIMITS.maxTotalUsd}`;
+    }
+  }
+  if (LIMITS.maxBuysPerHour) {
+    const count = buysLastHour();
+    if (count >= LIMITS.maxBuysPerHour) return `${count} compras na última hora (máx ${LIMITS.maxBuysPerHour})`;
+  }
+  return null;
+}
+
+function windowStart(): number {
+  const now = Date.now();
+  const start = LOSS_WINDOW_HOURS === null
+    ? new Date(now).setUTCHours(0, 0, 0, 0)
+    : now - LOSS_WINDOW_HOURS * 3_600_000;
+  // Perdas anteriores ao último disparo já pausaram o bot uma vez: não contam de novo
+  return Math.max(start, parseInt(getSetting(BREAKER_KEY) ?? "0", 10) || 0);
+}
+
+// Perda realizada (USD, positiva = prejuízo) na janela atual. Venda gravada sem preço do ETH
+// entra pelo último preço conhecido: pro breaker, perda sem USD ainda é perda
+export function realizedLossUsd(): number {
+  const since = windowStart();
+  const ethUsd = lastEthPrice() ?? 0;
+  const pnl = realizeFills(loadFills().filter((f) => f.paper === DRY_RUN))
+    .filter((r) => r.fill.timestamp >= since)
+    .reduce((acc, r) => acc + (r.pnlUsd ?? r.pnlEth * ethUsd), 0);
+  return Math.max(-pnl, 0);
+}
+
+// Pausa as compras se a perda da janela passou do limite; true = compras bloqueadas pelo breaker
+export async function checkLossLimit(): Promise<boolean> {
+  if (!LIMITS.maxLossUsd) return false;
+  const lossUsd = realizedLossUsd();
+  if (lossUsd < LIMITS.maxLossUsd) return false;
+  if (isPaused()) return true;
+
+  const window = LOSS_WINDOW_HOURS === null ? "hoje (UTC)" : `últimas ${LOSS_WINDOW_HOURS}h`;
+  logger.error(`🧯 Circuit breaker: perda realizada de $${lossUsd.toFixed(2)} ${window} (limite $${LIMITS.maxLossUsd})`);
+  setPaused(true, "circuit breaker");
+  setSetting(BREAKER_KEY, String(Date.now()));
+  await notifyCircuitBreaker({ lossUsd, limitUsd: LIMITS.maxLossUsd, window });
+  return true;
+}
+
+// Resumo pro /status
+export function riskSummary(ethPriceUsd: number | null): string {
+  const open = getAllPositions();
+  const deployed = ethPriceUsd !== null ? open.reduce((acc, { position }) => acc + exposureUsd(position, ethPriceUsd), 0) : null;
+  return [
+    `🛡️ Risco: ${open.length}${LIMITS.maxOpenPositions ? `/${LIMITS.maxOpenPositions}` : ""} posições`,
+    deployed !== null ? `$${deployed.toFixed(2)}${LIMITS.maxTotalUsd ? `/$${LIMITS.maxTotalUsd}` : ""} em uso` : null,
+    `${buysLastHour()}${LIMITS.maxBuysPerHour ? `/${LIMITS.maxBuysPerHour}` : ""} compras/h`,
+    LIMITS.maxLossUsd ? `perda $${realizedLossUsd().toFixed(2)}/$${LIMITS.maxLossUsd}` : null,
+  ].filter(Boolean).join(" | ");
+}
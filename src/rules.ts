@@ -0,0 +1,89 @@
+import { logger } from "./logger";
+import { DRY_RUN, walletLabel } from "./config";
+import { getDb } from "./db";
+import { getAllPositions } from "./positions";
+import { VenueQuote } from "./venues";
+import { signalWhales } from "./signals";
+import { CONSENSUS_MODE } from "./consensus";
+
+// ─────────────────────────────────────────────
+// REGRAS DE ENTRADA — dedupe e anti-perseguição de pump
+// ─────────────────────────────────────────────
+// Checadas antes de cada compra copiada (0 / ausente = regra desligada):
+// RULE_SKIP_IF_HOLDING=true    → não compra token que já temos em aberto (de qualquer whale)
+// RULE_MAX_ENTRIES_PER_TOKEN=N → no máximo N compras do mesmo token em RULE_ENTRY_WINDOW_HOURS (padrão 24)
+// RULE_CROWD_WHALES=N          → pula se N ou mais whales diferentes compraram o token em
+//                                RULE_CROWD_WINDOW_SEC (padrão 300): token já está "na boca do povo".
+//                                Ignorada com CONSENSUS_MODE=true: lá várias whales no token é o sinal de compra
+// RULE_MAX_PRICE_MOVE_PCT=X    → pula se o nosso preço cotado está X% acima do preço efetivo da
+//                                whale (valor gasto / tokens recebidos no receipt)
+
+export interface RuleBlock {
+  skipReason: string;
+  details: string;
+}
+
+const SKIP_IF_HOLDING = process.env.RULE_SKIP_IF_HOLDING === "true";
+const MAX_ENTRIES_PER_TOKEN = parseInt(process.env.RULE_MAX_ENTRIES_PER_TOKEN ?? "0", 10) || 0;
+const ENTRY_WINDOW_MS = parseFloat(process.env.RULE_ENTRY_WINDOW_HOURS ?? "24") * 3_600_000;
+const CROWD_WHALES = CONSENSUS_MODE ? 0 : parseInt(process.env.RULE_CROWD_WHALES ?? "0", 10) || 0;
+const CROWD_WINDOW_MS = parseFloat(process.env.RULE_CROWD_WINDOW_SEC ?? "300") * 1000;
+const MAX_PRICE_MOVE_PCT = parseFloat(process.env.RULE_MAX_PRICE_MOVE_PCT ?? "0") || 0;
+
+if (CONSENSUS_MODE && parseInt(process.env.RULE_CROWD_WHALES ?? "0", 10) > 0) {
+  logger.warn("⚠️  RULE_CROWD_WHALES ignorada: com CONSENSUS_MODE=true ela bloquearia justamente as compras de consenso");
+}
+
+function entriesInWindow(chain: string, token: string): number {
+  const row = getDb()
+    .prepare("SELECT COUNT(*) AS n FROM trades WHERE side = 'buy' AND chain = ? AND token = ? AND paper = ? AND timestamp > ?")
+    .get(chain, token.toLowerCase(), DRY_RUN ? 1 : 0, Date.now() - ENTRY_WINDOW_MS) as { n: number };
+  return row.n;
+}
+
+// Regras que não dependem de cotação; null = pode seguir
+export function checkEntryRules(params: { chain: string; token: string; whale: string }): RuleBlock | null {
+  const token = params.token.toLowerCase();
+
+  if (SKIP_IF_HOLDING) {
+    const held = getAllPositions().filter(({ position }) => position.chain === params.chain && position.token === token);
+    if (held.length > 0) {
+      return { skipReason: "already_holding", details: `${held.length} posição(ões) abertas (${[...new Set(held.map((h) => walletLabel(h.whale)))].join(", ")})` };
+    }
+  }
+  if (MAX_ENTRIES_PER_TOKEN) {
+    const entries = entriesInWindow(params.chain, token);
+    if (entries >= MAX_ENTRIES_PER_TOKEN) {
+      return { skipReason: "max_entries", details: `${entries} compras do token nas últimas ${ENTRY_WINDOW_MS / 3_600_000}h (máx ${MAX_ENTRIES_PER_TOKEN})` };
+    }
+  }
+  if (CROWD_WHALES) {
+    const whales = signalWhales(params.chain, token, "buy", CROWD_WINDOW_MS).length;
+    if (whales >= CROWD_WHALES) {
+      return { skipReason: "crowded", details: `${whales} whales compraram nos últimos ${CROWD_WINDOW_MS / 1000}s` };
+    }
+  }
+  return null;
+}
+
+// Checagem pra rodar sobre a melhor cotação (hook do executeCopyTrade). Sem o fill da whale
+// (caminho mempool: tx ainda não minerou) não há preço efetivo pra comparar.
+export function priceMoveCheck(params: {
+  whaleInputUsd: number | null;
+  whaleReceived: bigint | null | undefined;
+  amountUsd: number;
+}): ((price: VenueQuote) => RuleBlock | null) | undefined {
+  const { whaleInputUsd, whaleReceived, amountUsd } = params;
+  if (!MAX_PRICE_MOVE_PCT || !whaleInputUsd || !whaleReceived) return undefined;
+
+  return (price) => {
+    if (price.buyAmount <= 0n) return null;
+    // USD por token (raw): as casas decimais se cancelam na razão
+    const whalePrice = whaleInputUsd / Number(whaleReceived);
+    const ourPrice = amountUsd / Number(price.buyAmount);
+    const movePct = (ourPrice / whalePrice - 1) * 100;
+    logger.info(`📈 Preço vs whale: ${movePct >= 0 ? "+" : ""}${movePct.toFixed(2)}% (máx ${MAX_PRICE_MOVE_PCT}%)`);
+    if (movePct <= MAX_PRICE_MOVE_PCT) return null;
+    return { skipReason: "price_moved", details: `preço ${movePct.toFixed(1)}% acima do fill da whale (máx ${MAX_PRICE_MOVE_PCT}%)` };
+  };
+}
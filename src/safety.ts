@@ -0,0 +1,155 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { ETH_ADDRESS } from "./zerox";
+import { ChainConfig } from "./chains";
+import { getBestPrice, VenueQuote } from "./venues";
+
+// ─────────────────────────────────────────────
+// VERIFICAÇÃO DE HONEYPOT / TAX ANTES DE COMPRAR
+// ─────────────────────────────────────────────
+// 1. buy/sell tax informados pela 0x (tokenMetadata.buyToken), quando a cotação veio dela
+// 2. round trip: cota a venda do buyAmount de volta (melhor venue) e mede a perda
+// 3. transferência simulada (eth_call) a partir de quem já segura o token
+// 4. bytecode com funções de blacklist/bot-list
+
+const MAX_BUY_TAX_PCT = parseFloat(process.env.MAX_BUY_TAX_PCT ?? "10");
+const MAX_SELL_TAX_PCT = parseFloat(process.env.MAX_SELL_TAX_PCT ?? "10");
+const MAX_ROUNDTRIP_LOSS_PCT = parseFloat(process.env.MAX_ROUNDTRIP_LOSS_PCT ?? "25");
+const BLOCK_BLACKLISTABLE = process.env.SAFETY_BLOCK_BLACKLIST !== "false";
+
+const BLACKLIST_SIGNATURES = [
+  "isBlacklisted(address)",
+  "blacklist(address)",
+  "addToBlacklist(address)",
+  "setBlacklist(address,bool)",
+  "blacklistAddress(address,bool)",
+  "isBot(address)",
+  "setBots(address[],bool)",
+  "addBots(address[])",
+  "blockBots(address[])",
+];
+const BLACKLIST_SELECTORS = BLACKLIST_SIGNATURES.map((sig) => ethers.id(sig).slice(2, 10));
+
+const ERC20_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+export interface SafetyReport {
+  ok: boolean;
+  buyTaxPct: number | null;
+  sellTaxPct: number | null;
+  roundTripLossPct: number | null;
+  flags: string[];
+  skipReason?: string;
+  reason?: string;
+}
+
+function bpsToPct(bps: unknown): number | null {
+  if (bps === null || bps === undefined) return null;
+  const n = Number(bps);
+  return Number.isFinite(n) ? n / 100 : null;
+}
+
+// Simula holder → nós com 1% do saldo dele. Se reverter, o token não é transferível
+async function canTransfer(token: string, holder: string, to: string, provider: ethers.JsonRpcProvider): Promise<boolean | null> {
+  try {
+    const contract = new ethers.Contract(token, ERC20_ABI, provider);
+    const balance: bigint = await contract.balanceOf(holder);
+    if (balance === 0n) return null;
+    const amount = balance / 100n > 0n ? balance / 100n : balance;
+    const data = contract.interface.encodeFunctionData("transfer", [to, amount]);
+    await provider.call({ from: holder, to: token, data });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function hasBlacklistFunctions(token: string, provider: ethers.JsonRpcProvider): Promise<boolean> {
+  try {
+    const code = (await provider.getCode(token)).toLowerCase();
+    return BLACKLIST_SELECTORS.some((sel) => code.includes(`63${sel}`));
+  } catch {
+    return false;
+  }
+}
+
+export async function checkTokenSafety(params: {
+  chain: ChainConfig;
+  token: string;
+  sellAmountWei: bigint;
+  // Ativo pago na compra (ETH ou stablecoin); o round trip vende de volta pra ele
+  quoteToken?: string;
+  price: VenueQuote;
+  walletAddress: string;
+  holder?: string;
+  provider: ethers.JsonRpcProvider;
+}): Promise<SafetyReport> {
+  const { chain, token, sellAmountWei, price, walletAddress, holder, provider } = params;
+  const meta = price.raw?.tokenMetadata?.buyToken ?? {};
+  const report: SafetyReport = {
+    ok: true,
+    buyTaxPct: bpsToPct(meta.buyTaxBps),
+    sellTaxPct: bpsToPct(meta.sellTaxBps),
+    roundTripLossPct: null,
+    flags: [],
+  };
+
+  const reject = (skipReason: string, reason: string): SafetyReport => {
+    report.ok = false;
+    report.skipReason = skipReason;
+    report.reason = reason;
+    return report;
+  };
+
+  if (report.buyTaxPct !== null && report.buyTaxPct > MAX_BUY_TAX_PCT) {
+    return reject("high_buy_tax", `buy tax ${report.buyTaxPct.toFixed(1)}% > ${MAX_BUY_TAX_PCT}%`);
+  }
+  if (report.sellTaxPct !== null && report.sellTaxPct > MAX_SELL_TAX_PCT) {
+    return reject("high_sell_tax", `sell tax ${report.sellTaxPct.toFixed(1)}% > ${MAX_SELL_TAX_PCT}%`);
+  }
+
+  // Round trip: o que a gente compraria, vendido de volta agora
+  if (price.buyAmount > 0n) {
+    try {
+      const sellBack = await getBestPrice({ chain, sellToken: token, buyToken: params.quoteToken ?? ETH_ADDRESS, sellAmount: price.buyAmount, taker: walletAddress });
+      if (!sellBack) {
+        return reject("honeypot", "sem rota de venda para o token (round trip falhou)");
+      }
+      const ethBack = sellBack.buyAmount;
+      report.roundTripLossPct = Number(((sellAmountWei - ethBack) * 10000n) / sellAmountWei) / 100;
+      if (report.sellTaxPct === null) report.sellTaxPct = bpsToPct(sellBack.raw?.tokenMetadata?.sellToken?.sellTaxBps);
+    } catch (err: any) {
+      const msg = axios.isAxiosError(err) ? JSON.stringify(err.response?.data) : err.message;
+      logger.warn(`⚠️  Round trip de ${token} falhou: ${msg}`);
+      return reject("honeypot", "cotação de venda falhou (round trip)");
+    }
+    if (report.roundTripLossPct > MAX_ROUNDTRIP_LOSS_PCT) {
+      return reject("high_roundtrip_loss", `perda no round trip ${report.roundTripLossPct.toFixed(1)}% > ${MAX_ROUNDTRIP_LOSS_PCT}%`);
+    }
+    if (report.sellTaxPct !== null && report.sellTaxPct > MAX_SELL_TAX_PCT) {
+      return reject("high_sell_tax", `sell tax ${report.sellTaxPct.toFixed(1)}% > ${MAX_SELL_TAX_PCT}%`);
+    }
+  }
+
+  if (holder) {
+    const transferable = await canTransfer(token, holder, walletAddress, provider);
+    if (transferable === false) {
+      report.flags.push("non_transferable");
+      return reject("non_transferable", "transferência simulada reverteu (token não transferível)");
+    }
+  }
+
+  if (await hasBlacklistFunctions(token, provider)) {
+    report.flags.push("blacklist");
+    if (BLOCK_BLACKLISTABLE) return reject("blacklist", "contrato tem funções de blacklist");
+  }
+
+  logger.info(
+    `🛡️  Safety ok: buy tax ${report.buyTaxPct ?? "?"}% | sell tax ${report.sellTaxPct ?? "?"}% | round trip ${report.roundTripLossPct?.toFixed(1) ?? "?"}%` +
+    (report.flags.length ? ` | flags: ${report.flags.join(", ")}` : "")
+  );
+  return report;
+}
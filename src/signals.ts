@@ -0,0 +1,46 @@
+// ─────────────────────────────────────────────
+// SINAIS — compras/vendas das whales seguidas, numa janela de tempo
+// ─────────────────────────────────────────────
+// Toda compra/venda identificada (mempool ou bloco) entra aqui, copiada ou não.
+// Em memória: só a janela recente importa (regras de entrada e modo consenso).
+
+export type SignalSide = "buy" | "sell";
+
+export interface Signal {
+  chain: string;
+  token: string;
+  whale: string;
+  side: SignalSide;
+  txHash: string;
+  at: number;
+}
+
+const RETENTION_MS = 6 * 3_600_000;
+
+const store = new Map<string, Signal[]>();
+
+function key(chain: string, token: string): string {
+  return `${chain}:${token.toLowerCase()}`;
+}
+
+export function recordSignal(signal: Omit<Signal, "at">): Signal {
+  const now = Date.now();
+  const k = key(signal.chain, signal.token);
+  const entry: Signal = { ...signal, token: signal.token.toLowerCase(), whale: signal.whale.toLowerCase(), at: now };
+  const list = (store.get(k) ?? []).filter((s) => now - s.at <= RETENTION_MS);
+  // Mesma tx vista no mempool e no bloco conta uma vez só
+  if (!list.some((s) => s.txHash === entry.txHash && s.side === entry.side)) list.push(entry);
+  store.set(k, list);
+  return entry;
+}
+
+// Sinais do token nos últimos `windowMs` (e depois de `since`, se informado), do mais antigo pro mais novo
+export function getSignals(chain: string, token: string, side: SignalSide, windowMs: number, since = 0): Signal[] {
+  const from = Math.max(Date.now() - windowMs, since);
+  return (store.get(key(chain, token)) ?? []).filter((s) => s.side === side && s.at >= from);
+}
+
+// Whales distintas com sinal no token dentro da janela
+export function signalWhales(chain: string, token: string, side: SignalSide, windowMs: number, since = 0): string[] {
+  return [...new Set(getSignals(chain, token, side, windowMs, since).map((s) => s.whale))];
+}
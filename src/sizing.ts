@@ -0,0 +1,122 @@
+import { logger } from "./logger";
+
+// ─────────────────────────────────────────────
+// SIZING — quanto entrar em cada copy trade
+// ─────────────────────────────────────────────
+// fixed        → sempre TRADE_AMOUNT_USD
+// whale_pct    → SIZING_PCT % do valor que a whale colocou no swap
+// balance_pct  → SIZING_PCT % do nosso saldo atual
+// tiered       → faixas "valorWhaleUsd:entradaUsd" (SIZING_TIERS)
+export type SizingMode = "fixed" | "whale_pct" | "balance_pct" | "tiered";
+
+export interface SizingTier {
+  minWhaleUsd: number;
+  amountUsd: number;
+}
+
+export interface SizingConfig {
+  mode: SizingMode;
+  fixedUsd: number;
+  pct: number;
+  tiers: SizingTier[];
+  minUsd: number;
+  maxUsd: number;
+}
+
+const SIZING_MODES: SizingMode[] = ["fixed", "whale_pct", "balance_pct", "tiered"];
+
+// "0:5,1000:20,10000:50" → ordenado por minWhaleUsd crescente
+export function parseTiers(raw: string | undefined): SizingTier[] {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .map((t) => {
+      const [minWhaleUsd, amountUsd] = t.split(":").map((v) => parseFloat(v));
+      return { minWhaleUsd, amountUsd };
+    })
+    .filter((t) => Number.isFinite(t.minWhaleUsd) && Number.isFinite(t.amountUsd))
+    .sort((a, b) => a.minWhaleUsd - b.minWhaleUsd);
+}
+
+export function loadSizingConfig(): SizingConfig {
+  const mode = (process.env.SIZING_MODE ?? "fixed").trim().toLowerCase() as SizingMode;
+  if (!SIZING_MODES.includes(mode)) {
+    logger.error(`❌ SIZING_MODE inválido: ${mode} (use ${SIZING_MODES.join(", ")})`);
+    process.exit(1);
+  }
+  const fixedUsd = parseFloat(process.env.TRADE_AMOUNT_USD ?? "0");
+  return {
+    mode,
+    fixedUsd,
+    pct: parseFloat(process.env.SIZING_PCT ?? "1"),
+    tiers: parseTiers(process.env.SIZING_TIERS),
+    minUsd: parseFloat(process.env.MIN_TRADE_USD ?? "0"),
+    maxUsd: parseFloat(process.env.MAX_TRADE_USD ?? "0") || Infinity,
+  };
+}
+
+// Config efetiva para uma whale: global + overrides do perfil dela
+export function getSizingConfig(base: SizingConfig, overrides?: Partial<SizingConfig>): SizingConfig {
+  if (!overrides) return base;
+  return { ...base, ...overrides };
+}
+
+export interface SizingResult {
+  amountUsd: number;
+  reason: string;
+}
+
+// Retorna null quando o tamanho calculado fica abaixo do mínimo (trade deve ser pulado)
+export function computeTradeSize(
+  config: SizingConfig,
+  ctx: { whaleInputUsd: number | null; balanceUsd: number }
+): SizingResult | null {
+  let amountUsd: number;
+  let reason: string;
+
+  switch (config.mode) {
+    case "whale_pct":
+      if (ctx.whaleInputUsd === null) {
+        amountUsd = config.fixedUsd;
+        reason = "valor da whale desconhecido, usando fixo";
+      } else {
+        amountUsd = (ctx.whaleInputUsd * config.pct) / 100;
+        reason = `${config.pct}% de $${ctx.whaleInputUsd.toFixed(2)} da whale`;
+      }
+      break;
+    case "balance_pct":
+      amountUsd = (ctx.balanceUsd * config.pct) / 100;
+      reason = `${config.pct}% do saldo ($${ctx.balanceUsd.toFixed(2)})`;
+      break;
+    case "tiered": {
+      const whaleUsd = ctx.whaleInputUsd;
+      const tier = whaleUsd === null
+        ? undefined
+        : [...config.tiers].reverse().find((t) => whaleUsd >= t.minWhaleUsd);
+      if (!tier) {
+        amountUsd = config.fixedUsd;
+        reason = whaleUsd === null ? "valor da whale desconhecido, usando fixo" : "nenhuma faixa atingida, usando fixo";
+      } else {
+        amountUsd = tier.amountUsd;
+        reason = `faixa ≥ $${tier.minWhaleUsd} (whale: $${whaleUsd!.toFixed(2)})`;
+      }
+      break;
+    }
+    default:
+      amountUsd = config.fixedUsd;
+      reason = "valor fixo";
+  }
+
+  if (amountUsd > config.maxUsd) {
+    amountUsd = config.maxUsd;
+    reason += ` → limitado ao máximo $${config.maxUsd}`;
+  }
+  if (!(amountUsd > 0) || amountUsd < config.minUsd) {
+    logger.info(`⏭️  Tamanho calculado $${amountUsd.toFixed(2)} abaixo do mínimo $${config.minUsd} (${reason})`);
+    return null;
+  }
+
+  return { amountUsd: Math.round(amountUsd * 100) / 100, reason };
+}
@@ -0,0 +1,118 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { ChainConfig, chainEnv, getChains, getProvider } from "./chains";
+import { TxKind } from "./gas";
+
+// ─────────────────────────────────────────────
+// ENVIO DE TXS — público, privado ou broadcast
+// ─────────────────────────────────────────────
+// A tx é assinada localmente e o raw vai para:
+// public    → RPC normal da chain (mempool público)
+// private   → só <CHAIN>_PRIVATE_RPC_URL (RPC protegido / builder, fora do mempool público)
+// broadcast → RPC normal + todos de <CHAIN>_BROADCAST_RPC_URLS ao mesmo tempo (o primeiro que aceitar vale)
+// SUBMIT_BUY_MODE / SUBMIT_SELL_MODE escolhem o modo (padrão public). Approve segue o modo
+// da venda; speed-ups e cancelamentos vão pelo mesmo caminho da tx original (um cancelamento
+// recuperado no restart sem a tx original no banco vai pelo público).
+// Pra testar sem endpoint real: `npm run private-rpc` (privaterpc.ts) e
+// BASE_PRIVATE_RPC_URL=http://127.0.0.1:8546
+
+export type SubmitMode = "public" | "private" | "broadcast";
+
+const TIMEOUT_MS = 10_000;
+
+function parseMode(raw: string | undefined): SubmitMode {
+  const value = (raw ?? "public").toLowerCase();
+  if (value === "public" || value === "private" || value === "broadcast") return value;
+  throw new Error(`Modo de envio desconhecido: "${raw}" (use public, private ou broadcast)`);
+}
+
+const MODES: Record<Exclude<TxKind, "cancel">, SubmitMode> = {
+  buy: parseMode(process.env.SUBMIT_BUY_MODE),
+  sell: parseMode(process.env.SUBMIT_SELL_MODE),
+  approve: parseMode(process.env.SUBMIT_SELL_MODE),
+};
+
+export function submitModeFor(kind: TxKind): SubmitMode {
+  return kind === "cancel" ? "public" : MODES[kind];
+}
+
+function privateUrl(chain: ChainConfig): string | undefined {
+  return chainEnv(chain.key, "PRIVATE_RPC_URL");
+}
+
+function broadcastUrls(chain: ChainConfig): string[] {
+  return (chainEnv(chain.key, "BROADCAST_RPC_URLS") ?? "").split(",").map((u) => u.trim()).filter(Boolean);
+}
+
+// Falha na subida se um modo escolhido não tem endpoint configurado na chain
+export function validateSubmitConfig(chain: ChainConfig): void {
+  const modes = new Set(Object.values(MODES));
+  if (modes.has("private") && !privateUrl(chain)) {
+    throw new Error(`SUBMIT_*_MODE=private exige ${chain.key.toUpperCase()}_PRIVATE_RPC_URL`);
+  }
+  if (modes.has("broadcast") && broadcastUrls(chain).length === 0) {
+    throw new Error(`SUBMIT_*_MODE=broadcast exige ${chain.key.toUpperCase()}_BROADCAST_RPC_URLS`);
+  }
+}
+
+async function sendRaw(url: string, signedTx: string): Promise<string> {
+  const res = await axios.post(
+    url,
+    { jsonrpc: "2.0", id: 1, method: "eth_sendRawTransaction", params: [signedTx] },
+    { timeout: TIMEOUT_MS }
+  );
+  if (res.data?.error) throw new Error(res.data.error.message ?? JSON.stringify(res.data.error));
+  return res.data?.result;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+// "already known" num endpoint do broadcast = outro endpoint já propagou a mesma tx
+function isAlreadyKnown(err: any): boolean {
+  return /already known|already imported|known transaction/i.test(err?.message ?? "");
+}
+
+function chainById(chainId: number): ChainConfig {
+  const chain = getChains().find((c) => c.chainId === chainId);
+  if (!chain) throw new Error(`Chain ${chainId} não está habilitada em CHAINS`);
+  return chain;
+}
+
+// Envia uma tx já assinada; devolve o hash (calculado localmente, não depende do endpoint)
+export async function submitSignedTx(chainId: number, kind: TxKind, signedTx: string): Promise<string> {
+  const chain = chainById(chainId);
+  const hash = ethers.keccak256(signedTx);
+  const mode = submitModeFor(kind);
+
+  if (mode === "public") {
+    await getProvider(chain).broadcastTransaction(signedTx);
+    return hash;
+  }
+
+  if (mode === "private") {
+    const url = privateUrl(chain)!;
+    await sendRaw(url, signedTx);
+    logger.info(`🔒 Tx ${kind} enviada pelo RPC privado (${hostOf(url)}): ${hash}`);
+    return hash;
+  }
+
+  const targets: { name: string; send: () => Promise<unknown> }[] = [
+    { name: "público", send: () => getProvider(chain).broadcastTransaction(signedTx) },
+    ...broadcastUrls(chain).map((url) => ({ name: hostOf(url), send: () => sendRaw(url, signedTx) })),
+  ];
+  const results = await Promise.allSettled(targets.map((t) => t.send()));
+  const accepted = targets.filter((_, i) => results[i].status === "fulfilled" || isAlreadyKnown((results[i] as PromiseRejectedResult).reason));
+  if (accepted.length === 0) {
+    const first = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    throw first?.reason ?? new Error("nenhum endpoint aceitou a tx");
+  }
+  logger.info(`📡 Tx ${kind} em broadcast para ${accepted.length}/${targets.length} endpoint(s) (${accepted.map((t) => t.name).join(", ")}): ${hash}`);
+  return hash;
+}
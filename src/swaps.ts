@@ -0,0 +1,142 @@
+import { ethers } from "ethers";
+import { SwapInfo, ETH_ADDRESS } from "./decoder";
+
+// ─────────────────────────────────────────────
+// CLASSIFICAÇÃO DE SWAP PELO RECEIPT
+// ─────────────────────────────────────────────
+// Funções puras sobre os logs do receipt: usadas pelo bot ao vivo e pelo backtester.
+
+export { ETH_ADDRESS };
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const DEPOSIT_TOPIC = ethers.id("Deposit(address,uint256)");
+const WITHDRAWAL_TOPIC = ethers.id("Withdrawal(address,uint256)");
+
+export interface LogLike {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+export interface ReceiptLike {
+  logs: readonly LogLike[];
+}
+
+export interface AssetAmount {
+  token: string;
+  amount: bigint;
+}
+
+// O que o swap fez com o saldo da whale, token a token (líquido).
+// ETH nativo e WETH entram juntos em ethIn/ethOut, nunca em sold/bought.
+export interface SwapEvent {
+  kind: "buy" | "sell" | "rotation" | "unknown";
+  sold: AssetAmount[];
+  bought: AssetAmount[];
+  ethIn: bigint;   // ETH/WETH que a whale gastou
+  ethOut: bigint;  // ETH/WETH que voltou pra whale
+}
+
+function topicAddress(topic: string | undefined): string | null {
+  return topic ? ethers.dataSlice(topic, 12).toLowerCase() : null;
+}
+
+export function isEthToken(token: string, weth: string): boolean {
+  const t = token.toLowerCase();
+  return t === weth.toLowerCase() || t === ETH_ADDRESS;
+}
+
+export function classifySwapEvent(
+  receipt: ReceiptLike,
+  whaleFrom: string,
+  weth: string,
+  opts: {
+    txValue: bigint;
+    // Variação do saldo nativo da whale sem o gas (diff de saldo ou trace); sem isso, estima pelos logs
+    nativeDelta?: bigint | null;
+    swap?: SwapInfo;
+  }
+): SwapEvent {
+  const whale = whaleFrom.toLowerCase();
+  const wethAddr = weth.toLowerCase();
+
+  const deltas = new Map<string, bigint>();
+  const add = (token: string, amount: bigint) => deltas.set(token, (deltas.get(token) ?? 0n) + amount);
+
+  let deposited = 0n;
+  let unwrapped = 0n;
+  for (const log of receipt.logs) {
+    const token = log.address.toLowerCase();
+    if (token === wethAddr && log.topics[0] === DEPOSIT_TOPIC) deposited += BigInt(log.data);
+    if (token === wethAddr && log.topics[0] === WITHDRAWAL_TOPIC) unwrapped += BigInt(log.data);
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3 || log.data === "0x") continue;
+
+    const from = topicAddress(log.topics[1]);
+    const to = topicAddress(log.topics[2]);
+    if (from === to) continue;
+    const key = token === wethAddr ? ETH_ADDRESS : token;
+    if (from === whale) add(key, -BigInt(log.data));
+    if (to === whale) add(key, BigInt(log.data));
+  }
+
+  // ETH nativo: não aparece nos logs. Sem o delta medido, o que foi embrulhado
+  // (Deposit) conta como gasto e o que foi desembrulhado (Withdrawal) como recebido.
+  if (opts.nativeDelta !== undefined && opts.nativeDelta !== null) {
+    add(ETH_ADDRESS, opts.nativeDelta);
+  } else {
+    if (opts.txValue > 0n) add(ETH_ADDRESS, -(deposited > 0n && deposited < opts.txValue ? deposited : opts.txValue));
+    if (unwrapped > 0n) add(ETH_ADDRESS, unwrapped);
+  }
+
+  const sold: AssetAmount[] = [];
+  const bought: AssetAmount[] = [];
+  for (const [token, delta] of deltas.entries()) {
+    if (token === ETH_ADDRESS || delta === 0n) continue;
+    if (delta < 0n) sold.push({ token, amount: -delta });
+    else bought.push({ token, amount: delta });
+  }
+
+  const ethDelta = deltas.get(ETH_ADDRESS) ?? 0n;
+  let ethIn = ethDelta < 0n ? -ethDelta : 0n;
+  const ethOut = ethDelta > 0n ? ethDelta : 0n;
+  // Último recurso: amountIn em ETH decodificado do calldata
+  const swap = opts.swap;
+  if (ethIn === 0n && bought.length > 0 && sold.length === 0 && swap?.amountIn && swap.tokenIn && isEthToken(swap.tokenIn, weth)) {
+    ethIn = swap.amountIn;
+  }
+
+  const kind = sold.length > 0 && bought.length > 0
+    ? "rotation"
+    : sold.length > 0
+      ? "sell"
+      : bought.length > 0
+        ? "buy"
+        : "unknown";
+
+  return { kind, sold, bought, ethIn, ethOut };
+}
+
+// Maior transferência de cada quote asset entre terceiros (pools, router) no receipt. Numa rotação
+// A → B da whale é a perna intermediária (A → WETH → B), que não passa pelo saldo dela.
+// WETH sai como ETH_ADDRESS, igual em classifySwapEvent.
+export function routedQuoteAmounts(
+  receipt: ReceiptLike,
+  whaleFrom: string,
+  weth: string,
+  isQuote: (token: string) => boolean
+): AssetAmount[] {
+  const whale = whaleFrom.toLowerCase();
+  const largest = new Map<string, bigint>();
+  for (const log of receipt.logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3 || log.data === "0x") continue;
+    const token = isEthToken(log.address, weth) ? ETH_ADDRESS : log.address.toLowerCase();
+    if (!isQuote(token)) continue;
+    const from = topicAddress(log.topics[1]);
+    const to = topicAddress(log.topics[2]);
+    if (from === whale || to === whale) continue;
+    const amount = BigInt(log.data);
+    if (amount > (largest.get(token) ?? 0n)) largest.set(token, amount);
+  }
+  return [...largest.entries()].map(([token, amount]) => ({ token, amount }));
+}
+
@@ -1,5 +1,8 @@
 import axios from "axios";
 import { logger } from "./logger";
+import { walletLabel, DRY_RUN } from "./config";
+import { getChainDefinition, txUrl, tokenChartUrl } from "./chains";
+import { WhaleStats } from "./analytics";
 
 const TG_API = "https://api.telegram.org";
 
@@ -20,17 +23,31 @@ export function initTelegram(): void {
   logger.info("📱 Telegram notificações ativadas");
 }
 
-async function send(text: string): Promise<void> {
+export interface InlineButton {
+  text: string;
+  callback_data: string;
+}
+
+export function isTelegramEnabled(): boolean {
+  return enabled;
+}
+
+export function getDefaultChatId(): string {
+  return chatId;
+}
+
+export async function sendTo(targetChatId: string | number, text: string, buttons?: InlineButton[][]): Promise<void> {
   if (!enabled) return;
 
   try {
     await axios.post(
       `${TG_API}/bot${botToken}/sendMessage`,
       {
-        chat_id: chatId,
-        text,
+        chat_id: targetChatId,
+        text: DRY_RUN ? `📝 <b>[PAPER TRADE]</b>\n${text}` : text,
         parse_mode: "HTML",
         disable_web_page_preview: true,
+        ...(buttons ? { reply_markup: { inline_keyboard: buttons } } : {}),
       },
       { timeout: 8000 }
     );
@@ -39,12 +56,48 @@ async function send(text: string): Promise<void> {
   }
 }
 
+async function send(text: string, buttons?: InlineButton[][]): Promise<void> {
+  await sendTo(chatId, text, buttons);
+}
+
+// Long polling: segura a conexão até `timeoutSec` esperando updates novos
+export async function getUpdates(offset: number, timeoutSec: number): Promise<any[]> {
+  const res = await axios.get(`${TG_API}/bot${botToken}/getUpdates`, {
+    params: { offset, timeout: timeoutSec, allowed_updates: JSON.stringify(["message", "callback_query"]) },
+    timeout: (timeoutSec + 10) * 1000,
+  });
+  return res.data?.result ?? [];
+}
+
+export async function answerCallback(callbackQueryId: string, text: string): Promise<void> {
+  try {
+    await axios.post(`${TG_API}/bot${botToken}/answerCallbackQuery`, { callback_query_id: callbackQueryId, text }, { timeout: 8000 });
+  } catch (err: any) {
+    logger.error(`❌ Falha ao responder callback: ${err?.response?.data?.description || err.message}`);
+  }
+}
+
+// Fills simulados (modo paper) não têm TX on-chain para linkar
+function txLink(hash: string, label: string, chain?: string): string {
+  if (hash.startsWith("paper-")) return `${label} (simulada)`;
+  return `<a href="${txUrl(chain, hash)}">${label}</a>`;
+}
+
+function chainLine(chain?: string): string[] {
+  return chain ? [`⛓️ Chain: ${getChainDefinition(chain)?.name ?? chain}`] : [];
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
 /* ──────────────────────────────────────────────── */
 /* NOTIFICAÇÕES                                   */
 /* ──────────────────────────────────────────────── */
 
 export async function notifyBuyExecuted(params: {
   whaleWallet: string;
+  chain?: string;
   tokenOut: string;
   amountUsd: number;
   sellAmountEth: number;
@@ -53,9 +106,10 @@ export async function notifyBuyExecuted(params: {
   whaleTxHash: string;
   delayMs: number;
   gasCostEth?: number;
+  positionId?: string;
 }): Promise<void> {
 
-  const shortWallet = `${params.whaleWallet.slice(0, 6)}...${params.whaleWallet.slice(-4)}`;
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
   const gasCost = params.gasCostEth
     ? (params.gasCostEth * params.ethPriceUsd).toFixed(4)
     : "—";
@@ -63,36 +117,49 @@ export async function notifyBuyExecuted(params: {
   const msg = [
     `🟢 <b>COMPRA EXECUTADA</b>`,
     ``,
-    `👤 Whale: <code>${shortWallet}</code>`,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
     `🪙 Token: <code>${params.tokenOut}</code>`,
     `💵 Entrada: <b>$${params.amountUsd.toFixed(2)}</b> (${params.sellAmountEth.toFixed(6)} ETH)`,
     `⚡ Delay: ${params.delayMs}ms`,
     `⛽ Gas: ~$${gasCost}`,
     ``,
-    `🔗 <a href="https://basescan.org/tx/${params.txHash}">Minha TX</a> | <a href="https://basescan.org/tx/${params.whaleTxHash}">TX da Whale</a>`,
-    `📊 <a href="https://dexscreener.com/base/${params.tokenOut}">DexScreener</a>`,
+    `🔗 ${txLink(params.txHash, "Minha TX", params.chain)} | <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
+    `📊 <a href="${tokenChartUrl(params.chain, params.tokenOut)}">DexScreener</a>`,
   ].join("\n");
 
-  await send(msg);
+  // Botões tratados pelo bot de comandos (callback "sell:<positionId>:<pct>")
+  const buttons = params.positionId
+    ? [[
+        { text: "💸 Vender 50%", callback_data: `sell:${params.positionId}:50` },
+        { text: "🔴 Vender tudo", callback_data: `sell:${params.positionId}:100` },
+      ]]
+    : undefined;
+
+  await send(msg, buttons);
 }
 
 export async function notifySellDetected(params: {
   whaleWallet: string;
+  chain?: string;
   tokenIn: string;
   whaleTxHash: string;
 }): Promise<void> {
 
-  const shortWallet = `${params.whaleWallet.slice(0, 6)}...${params.whaleWallet.slice(-4)}`;
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
 
   const msg = [
     `🔴 <b>WHALE VENDENDO</b>`,
     ``,
-    `👤 Whale: <code>${shortWallet}</code>`,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
     `🪙 Token: <code>${params.tokenIn}</code>`,
     ``,
-    `⚠️ Considera vender manualmente se tiver posição aberta nesse token.`,
-    `🔗 <a href="https://basescan.org/tx/${params.whaleTxHash}">TX da Whale</a>`,
-    `📊 <a href="https://dexscreener.com/base/${params.tokenIn}">DexScreener</a>`,
+    ...(params.tokenIn === "unknown"
+      ? [`⚠️ Token vendido não identificado. Confira a TX e use <code>/sell &lt;token&gt;</code> se precisar.`]
+      : [`⚠️ Nenhuma posição rastreada nesse token. Se tiver saldo, venda com:`, `<code>/sell ${params.tokenIn}</code>`]),
+    `🔗 <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
+    `📊 <a href="${tokenChartUrl(params.chain, params.tokenIn)}">DexScreener</a>`,
   ].join("\n");
 
   await send(msg);
@@ -100,39 +167,73 @@ export async function notifySellDetected(params: {
 
 export async function notifyBuyFailed(params: {
   whaleWallet: string;
+  chain?: string;
   tokenOut: string;
   reason: string;
   whaleTxHash: string;
 }): Promise<void> {
 
-  const shortWallet = `${params.whaleWallet.slice(0, 6)}...${params.whaleWallet.slice(-4)}`;
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
 
   const msg = [
     `⚠️ <b>TRADE FALHOU</b>`,
     ``,
-    `👤 Whale: <code>${shortWallet}</code>`,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
     `🪙 Token: <code>${params.tokenOut}</code>`,
     `❌ Motivo: <code>${params.reason}</code>`,
     ``,
-    `🔗 <a href="https://basescan.org/tx/${params.whaleTxHash}">TX da Whale</a>`,
+    `🔗 <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
+  ].join("\n");
+
+  await send(msg);
+}
+
+export async function notifyBuySkipped(params: {
+  whaleWallet: string;
+  chain?: string;
+  tokenOut: string;
+  skipReason: string;
+  details?: string;
+  whaleTxHash: string;
+}): Promise<void> {
+
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
+
+  const msg = [
+    `🛑 <b>COMPRA PULADA</b>`,
+    ``,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
+    `🪙 Token: <code>${params.tokenOut}</code>`,
+    `🚫 Motivo: <code>${params.skipReason}</code>`,
+    ...(params.details ? [`ℹ️ ${escapeHtml(params.details)}`] : []),
+    ``,
+    `🔗 <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
+    `📊 <a href="${tokenChartUrl(params.chain, params.tokenOut)}">DexScreener</a>`,
   ].join("\n");
 
   await send(msg);
 }
 
 export async function notifyInsufficientBalance(params: {
-  currentEth: string;
+  chain?: string;
+  currentBalance: string;
+  symbol: string;
   requiredUsd: number;
   ethPriceUsd: number;
 }): Promise<void> {
 
-  const requiredEth = (params.requiredUsd / params.ethPriceUsd).toFixed(6);
+  const required = params.symbol === "ETH"
+    ? `~${(params.requiredUsd / params.ethPriceUsd).toFixed(6)} ETH (~$${params.requiredUsd})`
+    : `~${params.requiredUsd.toFixed(2)} ${params.symbol}`;
 
   const msg = [
     `🚨 <b>SALDO INSUFICIENTE</b>`,
     ``,
-    `💰 Saldo atual: <b>${params.currentEth} ETH</b>`,
-    `💸 Necessário: ~${requiredEth} ETH (~$${params.requiredUsd})`,
+    ...chainLine(params.chain),
+    `💰 Saldo atual: <b>${params.currentBalance} ${params.symbol}</b>`,
+    `💸 Necessário: ${required}`,
     ``,
     `⏸️ Bot pausado até recarregar a wallet.`,
   ].join("\n");
@@ -140,9 +241,47 @@ export async function notifyInsufficientBalance(params: {
   await send(msg);
 }
 
-export async function notifyBotStarted(wallets: string[]): Promise<void> {
+export async function notifyCircuitBreaker(params: {
+  lossUsd: number;
+  limitUsd: number;
+  window: string;
+}): Promise<void> {
+
+  const msg = [
+    `🧯 <b>CIRCUIT BREAKER</b>`,
+    ``,
+    `📉 Perda realizada ${escapeHtml(params.window)}: <b>$${params.lossUsd.toFixed(2)}</b>`,
+    `🚧 Limite: $${params.limitUsd.toFixed(2)}`,
+    ``,
+    `⏸️ Compras pausadas. Vendas continuam. Use /resume para voltar a copiar.`,
+  ].join("\n");
+
+  await send(msg);
+}
+
+export async function notifyWhaleDisabled(params: {
+  whale: string;
+  reason: string;
+  stats: WhaleStats;
+}): Promise<void> {
+
+  const s = params.stats;
+  const msg = [
+    `📉 <b>WHALE DESLIGADA</b>`,
+    ``,
+    `👤 Whale: <b>${escapeHtml(walletLabel(params.whale))}</b> (<code>${params.whale}</code>)`,
+    `🚫 Motivo: ${escapeHtml(params.reason)}`,
+    `📊 Win rate: ${s.winRate?.toFixed(1) ?? "—"}% | retorno médio: ${s.avgReturnPct?.toFixed(1) ?? "—"}% | drawdown: ${s.maxDrawdownPct.toFixed(1)}pp`,
+    ``,
+    `Posições abertas continuam no monitor. Para voltar a seguir: /addwallet ou enabled=true no perfil.`,
+  ].join("\n");
+
+  await send(msg);
+}
+
+export async function notifyBotStarted(wallets: string[], mempool: boolean, chains: string[]): Promise<void> {
 
-  const walletList = wallets.map(w => `• <code>${w}</code>`).join("\n");
+  const walletList = wallets.map(w => `• ${escapeHtml(walletLabel(w))} — <code>${w}</code>`).join("\n");
 
   const msg = [
     `🚀 <b>Bot iniciado</b>`,
@@ -150,7 +289,29 @@ export async function notifyBotStarted(wallets: string[]): Promise<void> {
     `📡 Monitorando ${wallets.length} wallet(s):`,
     walletList,
     ``,
-    `⚡ Modo: mempool (baixo delay)`,
+    `⛓️ Chains: ${chains.map((c) => getChainDefinition(c)?.name ?? c).join(", ")}`,
+    `⚡ Modo: ${mempool ? "mempool (baixo delay) + blocos" : "só blocos"}`,
+  ].join("\n");
+
+  await send(msg);
+}
+
+export async function notifyReconcile(params: {
+  chain?: string;
+  checked: number;
+  fixed: string[];
+  flagged: string[];
+  startup: boolean;
+}): Promise<void> {
+
+  const msg = [
+    `🔍 <b>RECONCILIAÇÃO${params.startup ? " (inicialização)" : ""}</b>`,
+    ``,
+    ...chainLine(params.chain),
+    `🪙 Tokens verificados: ${params.checked}`,
+    ...(params.fixed.length ? [``, `🛠️ <b>Ajustes:</b>`, ...params.fixed.map((l) => `• ${l}`)] : []),
+    ...(params.flagged.length ? [``, `⚠️ <b>Atenção:</b>`, ...params.flagged.map((l) => `• ${l}`)] : []),
+    ...(!params.fixed.length && !params.flagged.length ? [`✅ Posições batem com o saldo on-chain`] : []),
   ].join("\n");
 
   await send(msg);
@@ -162,29 +323,39 @@ export async function notifyBotStopped(): Promise<void> {
 
 export async function notifySellExecuted(params: {
   whaleWallet: string;
+  chain?: string;
   tokenIn: string;
   receivedEth: number;
   txHash: string;
   whaleTxHash: string;
   gasCostEth?: number;
+  ethPriceUsd: number | null;
+  reason?: string;
+  pnl?: { pnlEth: number; pnlPct: number } | null;
 }): Promise<void> {
 
-  const shortWallet = `${params.whaleWallet.slice(0, 6)}...${params.whaleWallet.slice(-4)}`;
-  const ethPriceUsd = 2000;
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
+  const ethPriceUsd = params.ethPriceUsd;
 
-  const gasCost = params.gasCostEth
+  const gasCost = params.gasCostEth && ethPriceUsd !== null
     ? (params.gasCostEth * ethPriceUsd).toFixed(4)
     : "—";
+  const receivedUsd = ethPriceUsd !== null ? (params.receivedEth * ethPriceUsd).toFixed(2) : "—";
 
   const msg = [
     `🔴 <b>VENDA EXECUTADA</b>`,
     ``,
-    `👤 Whale: <code>${shortWallet}</code>`,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
     `🪙 Token: <code>${params.tokenIn}</code>`,
-    `💰 Recebido: <b>${params.receivedEth.toFixed(6)} ETH</b> (~$${(params.receivedEth * ethPriceUsd).toFixed(2)})`,
+    ...(params.reason ? [`🎯 Saída: ${escapeHtml(params.reason)}`] : []),
+    `💰 Recebido: <b>${params.receivedEth.toFixed(6)} ETH</b> (~$${receivedUsd})`,
+    ...(params.pnl
+      ? [`${params.pnl.pnlEth >= 0 ? "📈" : "📉"} PnL: <b>${params.pnl.pnlEth >= 0 ? "+" : ""}${params.pnl.pnlEth.toFixed(6)} ETH</b> (${params.pnl.pnlPct >= 0 ? "+" : ""}${params.pnl.pnlPct.toFixed(1)}%)`]
+      : []),
     `⛽ Gas: ~$${gasCost}`,
     ``,
-    `🔗 <a href="https://basescan.org/tx/${params.txHash}">Minha TX</a> | <a href="https://basescan.org/tx/${params.whaleTxHash}">TX da Whale</a>`,
+    `🔗 ${txLink(params.txHash, "Minha TX", params.chain)} | <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
   ].join("\n");
 
   await send(msg);
@@ -192,21 +363,23 @@ export async function notifySellExecuted(params: {
 
 export async function notifySellFailed(params: {
   whaleWallet: string;
+  chain?: string;
   tokenIn: string;
   reason: string;
   whaleTxHash: string;
 }): Promise<void> {
 
-  const shortWallet = `${params.whaleWallet.slice(0, 6)}...${params.whaleWallet.slice(-4)}`;
+  const whaleName = escapeHtml(walletLabel(params.whaleWallet));
 
   const msg = [
     `⚠️ <b>VENDA FALHOU</b>`,
     ``,
-    `👤 Whale: <code>${shortWallet}</code>`,
+    `👤 Whale: <b>${whaleName}</b>`,
+    ...chainLine(params.chain),
     `🪙 Token: <code>${params.tokenIn}</code>`,
     `❌ Motivo: <code>${params.reason}</code>`,
     ``,
-    `🔗 <a href="https://basescan.org/tx/${params.whaleTxHash}">TX da Whale</a>`,
+    `🔗 <a href="${txUrl(params.chain, params.whaleTxHash)}">TX da Whale</a>`,
   ].join("\n");
 
   await send(msg);
@@ -1,90 +1,138 @@
 import axios from "axios";
 import { ethers } from "ethers";
 import { logger } from "./logger";
-
-const ZEROX_PRICE_URL = "https://api.0x.org/swap/allowance-holder/price";
-const ZEROX_QUOTE_URL = "https://api.0x.org/swap/allowance-holder/quote";
-const ALLOWANCE_HOLDER = "0x0000000000001fF3684f28c67538d4D072C22734";
-const ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+import { ETH_ADDRESS } from "./zerox";
+import { rankPrices, firmQuote, VenueQuote, VenueParams } from "./venues";
+import { checkTokenSafety } from "./safety";
+import { QuoteAsset } from "./assets";
+import { ChainConfig } from "./chains";
+import { SwapRoute } from "./decoder";
+import { getEthPrice } from "./price";
+import { sendWithGasStrategy, settlePendingTx, TxKind } from "./gas";
+import { DRY_RUN } from "./config";
+import { randomUUID } from "crypto";
 
 export interface TradeResult {
   status: "success" | "failed" | "skipped";
   txHash?: string;
   blockNumber?: number;
   buyAmountRaw?: string;
+  soldAmountRaw?: string;
   sellAmountEth: number;
-  ethPriceUsd: number;
+  ethPriceUsd: number | null;  // null só em venda: sem cotação fresca, o fill fica sem valor em USD
   gasUsed?: number;
   gasPriceGwei?: number;
   gasCostEth?: number;
   confirmedAtMs?: number;
+  venue?: string;
   errorMsg?: string;
   skipReason?: string;
 }
 
-let ethPriceUsd = 2000;
 
 // ─────────────────────────────────────────────
-// NONCE MANAGER
+// NONCE MANAGER — um contador por chain (mesma carteira, nonces independentes)
 // ─────────────────────────────────────────────
-let currentNonce: number | null = null;
-let nonceLock = false;
-const nonceLockQueue: (() => void)[] = [];
+interface NonceState {
+  current: number | null;
+  locked: boolean;
+  queue: (() => void)[];
+}
+
+const nonces = new Map<number, NonceState>();
 
-async function acquireNonceLock(): Promise<void> {
-  if (!nonceLock) { nonceLock = true; return; }
-  return new Promise(resolve => nonceLockQueue.push(resolve));
+function nonceState(chainId: number): NonceState {
+  let state = nonces.get(chainId);
+  if (!state) {
+    state = { current: null, locked: false, queue: [] };
+    nonces.set(chainId, state);
+  }
+  return state;
 }
 
-function releaseNonceLock(): void {
-  const next = nonceLockQueue.shift();
+async function acquireNonceLock(state: NonceState): Promise<void> {
+  if (!state.locked) { state.locked = true; return; }
+  return new Promise(resolve => state.queue.push(resolve));
+}
+
+function releaseNonceLock(state: NonceState): void {
+  const next = state.queue.shift();
   if (next) next();
-  else nonceLock = false;
+  else state.locked = false;
 }
 
-async function getNextNonce(signer: ethers.Wallet): Promise<number> {
-  await acquireNonceLock();
+async function getNextNonce(signer: ethers.Wallet, chainId: number): Promise<number> {
+  const state = nonceState(chainId);
+  await acquireNonceLock(state);
   try {
-    if (currentNonce === null) currentNonce = await signer.getNonce("pending");
-    return currentNonce++;
+    if (state.current === null) state.current = await signer.getNonce("pending");
+    return state.current++;
   } finally {
-    releaseNonceLock();
+    releaseNonceLock(state);
   }
 }
 
-function resetNonce(): void { currentNonce = null; }
-
-async function getEthPrice(): Promise<number> {
-  try {
-    const res = await axios.get(
-      "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd",
-      { timeout: 5000 }
-    );
-    ethPriceUsd = res.data?.ethereum?.usd ?? 2000;
-  } catch {
-    logger.warn("⚠️  Falha ao buscar preço ETH");
+function resetNonce(chainId: number): void { nonceState(chainId).current = null; }
+
+// Quantidade de `token` que chegou em `wallet` segundo os logs de Transfer do receipt
+function receivedFromReceipt(receipt: ethers.TransactionReceipt, token: string, wallet: string): bigint {
+  const transferTopic = ethers.id("Transfer(address,address,uint256)");
+  let total = 0n;
+  for (const log of receipt.logs) {
+    if (
+      log.address.toLowerCase() === token.toLowerCase() &&
+      log.topics[0] === transferTopic &&
+      log.topics[2] &&
+      ethers.dataSlice(log.topics[2], 12).toLowerCase() === wallet.toLowerCase()
+    ) {
+      total += BigInt(log.data);
+    }
   }
-  return ethPriceUsd;
+  return total;
+}
+
+// Custo de gas estimado (modo paper): o da venue, ou gas da tx x gas price atual
+async function estimateQuoteGasEth(quote: VenueQuote, provider: ethers.JsonRpcProvider): Promise<number | undefined> {
+  if (quote.gasCostEth !== undefined) return quote.gasCostEth;
+  const gas = quote.transaction?.gas;
+  if (!gas) return undefined;
+  const fee = await provider.getFeeData().catch(() => null);
+  const gasPrice = fee?.maxFeePerGas ?? fee?.gasPrice;
+  return gasPrice ? parseFloat(ethers.formatEther(BigInt(gas) * gasPrice)) : undefined;
 }
 
+// Fees e speed-up/cancelamento ficam em gas.ts; aqui só o nonce
 async function sendAndWait(
   signer: ethers.Wallet,
+  chainId: number,
+  kind: TxKind,
   tx: { to: string; data: string; value?: string; gas?: string }
 ): Promise<ethers.TransactionReceipt | null> {
-  const nonce = await getNextNonce(signer);
+  const nonce = await getNextNonce(signer, chainId);
   try {
-    const sent = await signer.sendTransaction({
-      to: tx.to,
-      data: tx.data,
-      value: BigInt(tx.value ?? "0"),
-      gasLimit: BigInt(Math.round(Number(tx.gas ?? "500000") * 1.3)),
+    return await sendWithGasStrategy({
+      signer,
+      chainId,
       nonce,
+      kind,
+      tx: {
+        to: tx.to,
+        data: tx.data,
+        value: BigInt(tx.value ?? "0"),
+        gasLimit: BigInt(Math.round(Number(tx.gas ?? "500000") * 1.3)),
+      },
     });
-    return await sent.wait();
   } catch (err: any) {
-    if (err.code === "NONCE_EXPIRED" || err.code === "REPLACEMENT_UNDERPRICED" || err.message?.includes("nonce")) {
+    // Timeout: a tx segue no mempool com este nonce. Reler o nonce ou devolver o erro pro
+    // retry mandaria o mesmo trade de novo: cancela e espera o nonce resolver
+    if (err.code === "TX_TIMEOUT") {
+      logger.warn(`⏳ ${err.message}: cancelando e esperando o nonce ${nonce} minerar`);
+      return settlePendingTx(signer, chainId, nonce);
+    }
+    // Nonce possivelmente não consumido (envio falhou, teto de gas): relê da chain
+    if (err.code === "NONCE_EXPIRED" || err.code === "REPLACEMENT_UNDERPRICED" || /nonce|teto/.test(err.message ?? "")) {
       logger.warn("⚠️  Erro de nonce, resetando...");
-      resetNonce();
+      resetNonce(chainId);
     }
     throw err;
   }
@@ -93,8 +141,9 @@ async function sendAndWait(
 async function checkAndApproveToken(
   tokenAddress: string,
   amount: string,
+  spender: string,
   signer: ethers.Wallet,
-  provider: ethers.JsonRpcProvider
+  chainId: number
 ): Promise<boolean> {
   try {
     const tokenContract = new ethers.Contract(
@@ -106,13 +155,12 @@ async function checkAndApproveToken(
       signer
     );
     const owner = await signer.getAddress();
-    const currentAllowance = await tokenContract.allowance(owner, ALLOWANCE_HOLDER);
+    const currentAllowance = await tokenContract.allowance(owner, spender);
     const amountBigInt = BigInt(amount);
     if (currentAllowance < amountBigInt) {
-      logger.info(`📝 Fazendo approve de ${tokenAddress} pro AllowanceHolder...`);
-      const nonce = await getNextNonce(signer);
-      const tx = await tokenContract.approve(ALLOWANCE_HOLDER, amountBigInt, { nonce });
-      const receipt = await tx.wait();
+      logger.info(`📝 Fazendo approve de ${tokenAddress} pro spender ${spender}...`);
+      const data = tokenContract.interface.encodeFunctionData("approve", [spender, amountBigInt]);
+      const receipt = await sendAndWait(signer, chainId, "approve", { to: tokenAddress, data, gas: "80000" });
       if (receipt?.status === 1) {
         logger.info(`✅ Aprovação confirmada: ${receipt.hash}`);
         await new Promise(r => setTimeout(r, 2000));
@@ -125,62 +173,106 @@ async function checkAndApproveToken(
     logger.info(`✅ Já tem allowance suficiente`);
     return true;
   } catch (err: any) {
-    if (err.code === "NONCE_EXPIRED" || err.code === "REPLACEMENT_UNDERPRICED" || err.message?.includes("nonce")) resetNonce();
     logger.error(`❌ Erro no approve: ${err.message}`);
     return false;
   }
 }
 
 export async function executeCopyTrade(params: {
+  chain: ChainConfig;
   tokenOut: string;
   amountUsd: number;
   walletAddress: string;
   signer: ethers.Wallet;
   provider: ethers.JsonRpcProvider;
+  slippagePct?: number;
+  whaleAddress?: string;
+  // Stablecoin que paga a compra (FUNDING_ASSET); sem isso, ETH nativo
+  funding?: QuoteAsset | null;
+  // Rota decodificada do swap da whale (venue "whale")
+  route?: SwapRoute | null;
+  // Regra sobre a melhor cotação antes de executar (ex: preço já andou demais desde a whale)
+  checkPrice?: (price: VenueQuote) => { skipReason: string; details: string } | null;
 }): Promise<TradeResult> {
-  const { tokenOut, amountUsd, walletAddress, signer } = params;
-  const price = await getEthPrice();
+  const { chain, tokenOut, amountUsd, walletAddress, signer } = params;
+  const chainId = chain.chainId;
+  const slippagePct = params.slippagePct ?? parseFloat(process.env.MAX_SLIPPAGE ?? "1");
+  let price: number;
+  try {
+    price = await getEthPrice(chain);
+  } catch (err: any) {
+    logger.error(`❌ [BUY] ${err.message}`);
+    return { status: "failed", sellAmountEth: 0, ethPriceUsd: 0, errorMsg: err.message };
+  }
   const ethAmount = amountUsd / price;
-  const sellAmount = ethers.parseEther(ethAmount.toFixed(8)).toString();
+  const funding = params.funding ?? null;
+  const sellToken = funding ? funding.address : ETH_ADDRESS;
+  const sellAmount = funding
+    ? ethers.parseUnits(amountUsd.toFixed(funding.decimals), funding.decimals).toString()
+    : ethers.parseEther(ethAmount.toFixed(8)).toString();
+  const venueParams: VenueParams = { chain, sellToken, buyToken: tokenOut, sellAmount: BigInt(sellAmount), taker: walletAddress, route: params.route ?? undefined };
 
-  logger.info(`💱 [BUY] Cotando: ${ethAmount.toFixed(6)} ETH (~$${amountUsd}) -> ${tokenOut}`);
+  logger.info(`💱 [BUY] Cotando: ${funding ? `${amountUsd.toFixed(2)} ${funding.symbol}` : `${ethAmount.toFixed(6)} ETH (~$${amountUsd})`} -> ${tokenOut}`);
 
   try {
-    const priceRes = await axios.get(ZEROX_PRICE_URL, {
-      headers: { "0x-api-key": process.env.ZEROX_API_KEY!, "0x-version": "v2" },
-      params: { chainId: 8453, sellToken: ETH_ADDRESS, buyToken: tokenOut, sellAmount, taker: walletAddress },
-      timeout: 10000,
-    });
+    const ranked = await rankPrices(venueParams);
 
-    if (!priceRes.data?.liquidityAvailable) {
+    if (ranked.length === 0) {
       return { status: "failed", sellAmountEth: ethAmount, ethPriceUsd: price, errorMsg: "Sem liquidez disponível" };
     }
 
-    const quoteRes = await axios.get(ZEROX_QUOTE_URL, {
-      headers: { "0x-api-key": process.env.ZEROX_API_KEY!, "0x-version": "v2" },
-      params: {
-        chainId: 8453, sellToken: ETH_ADDRESS, buyToken: tokenOut, sellAmount, taker: walletAddress,
-        slippageBps: Math.round(parseFloat(process.env.MAX_SLIPPAGE ?? "1") * 100),
-      },
-      timeout: 10000,
+    const blocked = params.checkPrice?.(ranked[0].price);
+    if (blocked) {
+      logger.warn(`🛑 [BUY] ${blocked.details}`);
+      return { status: "skipped", skipReason: blocked.skipReason, sellAmountEth: ethAmount, ethPriceUsd: price, errorMsg: blocked.details };
+    }
+
+    if (process.env.SAFETY_CHECK !== "false") {
+      const safety = await checkTokenSafety({
+        chain,
+        token: tokenOut,
+        sellAmountWei: BigInt(sellAmount),
+        quoteToken: sellToken,
+        price: ranked[0].price,
+        walletAddress,
+        holder: params.whaleAddress,
+        provider: params.provider,
+      });
+      if (!safety.ok) {
+        logger.warn(`🛑 [BUY] Token reprovado na verificação de segurança: ${safety.reason}`);
+        return { status: "skipped", skipReason: safety.skipReason, sellAmountEth: ethAmount, ethPriceUsd: price, errorMsg: safety.reason };
+      }
+    }
+
+    // Com stablecoin, o approve vai pro spender da venue que for cotar
+    const quote = await firmQuote(venueParams, ranked, Math.round(slippagePct * 100), async (candidate) => {
+      if (!funding || DRY_RUN || !candidate.spender) return true;
+      return checkAndApproveToken(funding.address, sellAmount, candidate.spender, signer, chainId);
     });
+    if (!quote?.transaction) return { status: "failed", sellAmountEth: ethAmount, ethPriceUsd: price, errorMsg: "Nenhuma venue devolveu transação" };
 
-    const quote = quoteRes.data;
-    if (!quote?.transaction) return { status: "failed", sellAmountEth: ethAmount, ethPriceUsd: price, errorMsg: "0x API returned no transaction" };
+    logger.info(`✅ Cotação ok via ${quote.venue}. buyAmount: ${quote.buyAmount}`);
 
-    logger.info(`✅ Cotação ok. buyAmount: ${quote.buyAmount}`);
-    const receipt = await sendAndWait(signer, quote.transaction);
+    if (DRY_RUN) {
+      const gasCostEth = await estimateQuoteGasEth(quote, params.provider);
+      logger.info(`📝 [PAPER] BUY simulada via ${quote.venue}: ${quote.buyAmount} de ${tokenOut} (gas est.: ${gasCostEth?.toFixed(6) ?? "?"} ETH)`);
+      return { status: "success", txHash: `paper-${randomUUID()}`, buyAmountRaw: quote.buyAmount.toString(), sellAmountEth: ethAmount, ethPriceUsd: price, gasCostEth, confirmedAtMs: Date.now(), venue: quote.venue };
+    }
+
+    const receipt = await sendAndWait(signer, chainId, "buy", quote.transaction);
     const confirmedAtMs = Date.now();
 
     if (receipt?.status === 1) {
       const gasPriceGwei = receipt.gasPrice ? parseFloat(ethers.formatUnits(receipt.gasPrice, "gwei")) : undefined;
       const gasUsed = receipt.gasUsed ? Number(receipt.gasUsed) : undefined;
       const gasCostEth = gasUsed && gasPriceGwei ? (gasUsed * gasPriceGwei) / 1e9 : undefined;
-      logger.info(`✅ BUY confirmada no bloco ${receipt.blockNumber} (gas: ${gasUsed})`);
-      return { status: "success", txHash: receipt.hash, blockNumber: receipt.blockNumber, buyAmountRaw: quote.buyAmount, sellAmountEth: ethAmount, ethPriceUsd: price, gasUsed, gasPriceGwei, gasCostEth, confirmedAtMs };
+      const received = receivedFromReceipt(receipt, tokenOut, walletAddress);
+      const buyAmountRaw = received > 0n ? received.toString() : quote.buyAmount.toString();
+      logger.info(`✅ BUY confirmada no bloco ${receipt.blockNumber} via ${quote.venue} (gas: ${gasUsed})`);
+      return { status: "success", txHash: receipt.hash, blockNumber: receipt.blockNumber, buyAmountRaw, sellAmountEth: ethAmount, ethPriceUsd: price, gasUsed, gasPriceGwei, gasCostEth, confirmedAtMs, venue: quote.venue };
     } else {
       logger.error(`❌ BUY revertida`);
-      return { status: "failed", sellAmountEth: ethAmount, ethPriceUsd: price, confirmedAtMs, errorMsg: "tx reverted" };
+      return { status: "failed", sellAmountEth: ethAmount, ethPriceUsd: price, confirmedAtMs, errorMsg: "tx reverted", venue: quote.venue };
     }
   } catch (err: any) {
     const errorMsg = axios.isAxiosError(err) ? JSON.stringify(err.response?.data) : err.message;
@@ -190,16 +282,27 @@ export async function executeCopyTrade(params: {
 }
 
 export async function executeCopySell(params: {
+  chain: ChainConfig;
   tokenIn: string;
   walletAddress: string;
   signer: ethers.Wallet;
   provider: ethers.JsonRpcProvider;
   fraction?: number;
+  amount?: bigint;
+  balanceOverride?: bigint;
+  slippagePct?: number;
   retries?: number;
   retryDelayMs?: number;
+  route?: SwapRoute | null;
 }): Promise<TradeResult> {
-  const { tokenIn, walletAddress, signer, provider, fraction = 1.0, retries = 3, retryDelayMs = 5000 } = params;
-  const price = await getEthPrice();
+  const { chain, tokenIn, walletAddress, signer, provider, fraction = 1.0, retries = 3, retryDelayMs = 5000 } = params;
+  const chainId = chain.chainId;
+  const slippagePct = params.slippagePct ?? parseFloat(process.env.MAX_SLIPPAGE ?? "3");
+  // Venda nunca espera o oráculo: sem preço dentro de PRICE_MAX_AGE_SEC, segue sem valor em USD
+  const price = await getEthPrice(chain).catch((err) => {
+    logger.warn(`⚠️  [SELL] Sem preço do ETH (${err.message}): fill gravado sem valor em USD`);
+    return null;
+  });
 
   const tokenContract = new ethers.Contract(
     tokenIn,
@@ -207,15 +310,19 @@ export async function executeCopySell(params: {
     provider
   );
 
-  const totalBalance = await tokenContract.balanceOf(walletAddress);
+  // No modo paper o saldo vem das posições simuladas, não da chain
+  const totalBalance: bigint = params.balanceOverride ?? await tokenContract.balanceOf(walletAddress);
   if (totalBalance === 0n) {
     logger.info(`⏭️  Sem saldo de ${tokenIn} para vender`);
     return { status: "skipped", skipReason: "no_balance", sellAmountEth: 0, ethPriceUsd: price };
   }
 
-  const sellBalance = fraction >= 1.0
-    ? totalBalance
-    : (totalBalance * BigInt(Math.floor(fraction * 1_000_000))) / BigInt(1_000_000);
+  // `amount` explícito (ex: parte de uma posição) tem prioridade sobre `fraction`
+  const sellBalance = params.amount !== undefined
+    ? (params.amount < totalBalance ? params.amount : totalBalance)
+    : fraction >= 1.0
+      ? totalBalance
+      : (totalBalance * BigInt(Math.floor(fraction * 1_000_000))) / BigInt(1_000_000);
 
   if (sellBalance === 0n) {
     logger.info(`⏭️  Fração calculada zerou o saldo, usando saldo total`);
@@ -223,54 +330,47 @@ export async function executeCopySell(params: {
   }
 
   const decimals = await tokenContract.decimals().catch(() => 18);
-  logger.info(`💱 [SELL] Cotando: ${ethers.formatUnits(sellBalance, decimals)} tokens (${fraction < 1 ? (fraction * 100).toFixed(1) + "% do saldo" : "100%"}) -> ETH`);
+  const sellShare = params.amount !== undefined
+    ? "quantidade da posição"
+    : fraction < 1 ? (fraction * 100).toFixed(1) + "% do saldo" : "100%";
+  logger.info(`💱 [SELL] Cotando: ${ethers.formatUnits(sellBalance, decimals)} tokens (${sellShare}) -> ETH`);
 
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      const priceRes = await axios.get(ZEROX_PRICE_URL, {
-        headers: { "0x-api-key": process.env.ZEROX_API_KEY!, "0x-version": "v2" },
-        params: { chainId: 8453, sellToken: tokenIn, buyToken: ETH_ADDRESS, sellAmount: sellBalance.toString(), taker: walletAddress },
-        timeout: 10000,
+      const venueParams: VenueParams = { chain, sellToken: tokenIn, buyToken: ETH_ADDRESS, sellAmount: sellBalance, taker: walletAddress, route: params.route ?? undefined };
+      const ranked = await rankPrices(venueParams);
+      if (ranked.length === 0) throw new Error("Sem liquidez disponível");
+
+      // Approve do saldo todo pro spender de cada venue tentada (evita novo approve nas próximas vendas)
+      const quote = await firmQuote(venueParams, ranked, Math.round(slippagePct * 100), async (candidate) => {
+        if (DRY_RUN || !candidate.spender) return true;
+        return checkAndApproveToken(tokenIn, totalBalance.toString(), candidate.spender, signer, chainId);
       });
 
-      logger.info(`📋 Price response keys: ${Object.keys(priceRes.data).join(', ')}`);
-
-      if (priceRes.data?.issues?.allowance) {
-        logger.info(`⚠️  Allowance necessária: ${JSON.stringify(priceRes.data.issues.allowance)}`);
-        const approved = await checkAndApproveToken(tokenIn, totalBalance.toString(), signer, provider);
-        if (!approved) return { status: "failed", sellAmountEth: 0, ethPriceUsd: price, errorMsg: "Falha na aprovação do token" };
+      if (!quote?.transaction) {
+        logger.error(`❌ No transaction in quote`);
+        return { status: "failed", sellAmountEth: 0, ethPriceUsd: price, errorMsg: "Nenhuma venue devolveu transação" };
       }
 
-      const quoteRes = await axios.get(ZEROX_QUOTE_URL, {
-        headers: { "0x-api-key": process.env.ZEROX_API_KEY!, "0x-version": "v2" },
-        params: {
-          chainId: 8453, sellToken: tokenIn, buyToken: ETH_ADDRESS,
-          sellAmount: sellBalance.toString(), taker: walletAddress,
-          slippageBps: Math.round(parseFloat(process.env.MAX_SLIPPAGE ?? "3") * 100),
-        },
-        timeout: 10000,
-      });
+      logger.info(`📋 Transaction to send (${quote.venue}): to=${quote.transaction.to}, data=${quote.transaction.data?.slice(0, 30)}..., value=${quote.transaction.value}`);
 
-      const quote = quoteRes.data;
-      logger.info(`📋 Quote response keys: ${Object.keys(quote).join(', ')}`);
+      const buyAmountEth = parseFloat(ethers.formatEther(quote.buyAmount));
 
-      if (!quote?.transaction) {
-        logger.error(`❌ No transaction in quote`);
-        return { status: "failed", sellAmountEth: 0, ethPriceUsd: price, errorMsg: "0x API returned no transaction" };
+      if (DRY_RUN) {
+        const gasCostEth = await estimateQuoteGasEth(quote, provider);
+        logger.info(`📝 [PAPER] SELL simulada via ${quote.venue}: ${buyAmountEth.toFixed(6)} ETH (gas est.: ${gasCostEth?.toFixed(6) ?? "?"} ETH)`);
+        return { status: "success", txHash: `paper-${randomUUID()}`, soldAmountRaw: sellBalance.toString(), sellAmountEth: buyAmountEth, ethPriceUsd: price, gasCostEth, confirmedAtMs: Date.now(), venue: quote.venue };
       }
 
-      logger.info(`📋 Transaction to send: to=${quote.transaction.to}, data=${quote.transaction.data?.slice(0, 30)}..., value=${quote.transaction.value}`);
-
-      const buyAmountEth = parseFloat(ethers.formatEther(quote.buyAmount || "0"));
-      const receipt = await sendAndWait(signer, quote.transaction);
+      const receipt = await sendAndWait(signer, chainId, "sell", quote.transaction);
       const confirmedAtMs = Date.now();
 
       if (receipt?.status === 1) {
         const gasPriceGwei = receipt.gasPrice ? parseFloat(ethers.formatUnits(receipt.gasPrice, "gwei")) : undefined;
         const gasUsed = receipt.gasUsed ? Number(receipt.gasUsed) : undefined;
         const gasCostEth = gasUsed && gasPriceGwei ? (gasUsed * gasPriceGwei) / 1e9 : undefined;
-        logger.info(`✅ SELL confirmada no bloco ${receipt.blockNumber} (gas: ${gasUsed})`);
-        return { status: "success", txHash: receipt.hash, blockNumber: receipt.blockNumber, sellAmountEth: buyAmountEth, ethPriceUsd: price, gasUsed, gasPriceGwei, gasCostEth, confirmedAtMs };
+        logger.info(`✅ SELL confirmada no bloco ${receipt.blockNumber} via ${quote.venue} (gas: ${gasUsed})`);
+        return { status: "success", txHash: receipt.hash, blockNumber: receipt.blockNumber, soldAmountRaw: sellBalance.toString(), sellAmountEth: buyAmountEth, ethPriceUsd: price, gasUsed, gasPriceGwei, gasCostEth, confirmedAtMs, venue: quote.venue };
       } else {
         logger.error(`❌ SELL revertida (tentativa ${attempt}/${retries})`);
         if (attempt < retries) {
@@ -278,7 +378,7 @@ export async function executeCopySell(params: {
           await new Promise(r => setTimeout(r, retryDelayMs));
           continue;
         }
-        return { status: "failed", sellAmountEth: 0, ethPriceUsd: price, confirmedAtMs, errorMsg: "tx reverted" };
+        return { status: "failed", sellAmountEth: 0, ethPriceUsd: price, confirmedAtMs, errorMsg: "tx reverted", venue: quote.venue };
       }
     } catch (err: any) {
       const errorMsg = axios.isAxiosError(err) ? JSON.stringify(err.response?.data) : err.message;
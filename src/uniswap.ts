@@ -0,0 +1,140 @@
+import { ethers } from "ethers";
+import { ETH_ADDRESS } from "./decoder";
+import { ExecutionVenue, VenueRequest, VenueQuote } from "./venues";
+
+// ─────────────────────────────────────────────
+// VENUE DIRETA: UNISWAP V3 (QuoterV2 + SwapRouter02)
+// ─────────────────────────────────────────────
+// Rota direta token↔token ou passando por WETH, no fee tier que entrega mais.
+// ETH nativo entra como msg.value (o router embrulha) e sai via unwrapWETH9.
+
+const FEES = [100, 500, 3000, 10000];
+const ADDRESS_THIS = "0x0000000000000000000000000000000000000002";
+const DEADLINE_SEC = 120;
+
+const QUOTER_ABI = [
+  "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
+  "function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)",
+];
+
+const ROUTER = new ethers.Interface([
+  "function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum)) payable returns (uint256 amountOut)",
+  "function unwrapWETH9(uint256 amountMinimum, address recipient) payable",
+  "function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)",
+]);
+
+export interface V3Route {
+  path: string;
+  amountOut: bigint;
+}
+
+function normalize(token: string, weth: string): string {
+  const t = token.toLowerCase();
+  return t === ETH_ADDRESS ? weth : t;
+}
+
+async function bestSingle(
+  quoter: ethers.Contract,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint
+): Promise<{ fee: number; amountOut: bigint } | null> {
+  const quotes = await Promise.all(FEES.map(async (fee) => {
+    try {
+      const res = await quoter.quoteExactInputSingle.staticCall({ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0 });
+      return { fee, amountOut: res[0] as bigint };
+    } catch {
+      return null; // pool inexistente ou sem liquidez nesse fee
+    }
+  }));
+  let best: { fee: number; amountOut: bigint } | null = null;
+  for (const q of quotes) if (q && q.amountOut > 0n && (!best || q.amountOut > best.amountOut)) best = q;
+  return best;
+}
+
+async function findRoute(req: VenueRequest): Promise<V3Route | null> {
+  const weth = req.chain.weth;
+  const tokenIn = normalize(req.sellToken, weth);
+  const tokenOut = normalize(req.buyToken, weth);
+  if (tokenIn === tokenOut) return null;
+
+  const quoter = new ethers.Contract(req.chain.quoterV2, QUOTER_ABI, req.provider);
+  const direct = await bestSingle(quoter, tokenIn, tokenOut, req.sellAmount);
+  let best: V3Route | null = direct
+    ? { path: ethers.solidityPacked(["address", "uint24", "address"], [tokenIn, direct.fee, tokenOut]), amountOut: direct.amountOut }
+    : null;
+
+  if (tokenIn !== weth && tokenOut !== weth) {
+    const hop1 = await bestSingle(quoter, tokenIn, weth, req.sellAmount);
+    const hop2 = hop1 ? await bestSingle(quoter, weth, tokenOut, hop1.amountOut) : null;
+    if (hop1 && hop2 && (!best || hop2.amountOut > best.amountOut)) {
+      best = {
+        path: ethers.solidityPacked(["address", "uint24", "address", "uint24", "address"], [tokenIn, hop1.fee, weth, hop2.fee, tokenOut]),
+        amountOut: hop2.amountOut,
+      };
+    }
+  }
+  return best;
+}
+
+// Cota um path já pronto (ex: o da whale) no QuoterV2; null se algum pool não existir
+export async function quotePath(req: VenueRequest, path: string): Promise<bigint | null> {
+  const quoter = new ethers.Contract(req.chain.quoterV2, QUOTER_ABI, req.provider);
+  try {
+    const res = await quoter.quoteExactInput.staticCall(path, req.sellAmount);
+    return res[0] > 0n ? (res[0] as bigint) : null;
+  } catch {
+    return null;
+  }
+}
+
+// multicall(exactInput [+ unwrapWETH9]) no SwapRouter02, com amountOutMinimum pelo slippage
+export async function buildV3Quote(req: VenueRequest, route: V3Route, slippageBps: number, venue: string): Promise<VenueQuote> {
+  const ethIn = req.sellToken.toLowerCase() === ETH_ADDRESS;
+  const ethOut = req.buyToken.toLowerCase() === ETH_ADDRESS;
+  const minOut = (route.amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+
+  const calls = [
+    ROUTER.encodeFunctionData("exactInput", [{
+      path: route.path,
+      recipient: ethOut ? ADDRESS_THIS : req.taker,
+      amountIn: req.sellAmount,
+      amountOutMinimum: minOut,
+    }]),
+    ...(ethOut ? [ROUTER.encodeFunctionData("unwrapWETH9", [minOut, req.taker])] : []),
+  ];
+  const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SEC;
+  const tx = {
+    to: req.chain.swapRouter02,
+    data: ROUTER.encodeFunctionData("multicall", [deadline, calls]),
+    value: ethIn ? req.sellAmount.toString() : "0",
+  };
+  const gas = await req.provider
+    .estimateGas({ from: req.taker, to: tx.to, data: tx.data, value: BigInt(tx.value) })
+    .catch(() => undefined);
+
+  return {
+    venue,
+    buyAmount: route.amountOut,
+    minBuyAmount: minOut,
+    spender: ethIn ? null : req.chain.swapRouter02,
+    transaction: { ...tx, gas: gas?.toString() },
+  };
+}
+
+export const uniswapV3Venue: ExecutionVenue = {
+  name: "uniswap",
+  supports: (chain) => Boolean(chain.swapRouter02 && chain.quoterV2),
+
+  async price(req): Promise<VenueQuote | null> {
+    const route = await findRoute(req);
+    if (!route) return null;
+    const spender = req.sellToken.toLowerCase() === ETH_ADDRESS ? null : req.chain.swapRouter02;
+    return { venue: "uniswap", buyAmount: route.amountOut, spender };
+  },
+
+  async quote(req, slippageBps): Promise<VenueQuote | null> {
+    const route = await findRoute(req);
+    return route ? buildV3Quote(req, route, slippageBps, "uniswap") : null;
+  },
+};
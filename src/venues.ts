@@ -0,0 +1,192 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { logger } from "./logger";
+import { ChainConfig, getProvider } from "./chains";
+import { ETH_ADDRESS, SwapRoute } from "./decoder";
+import { ALLOWANCE_HOLDER, getZeroExPrice, getZeroExQuote } from "./zerox";
+import { uniswapV3Venue } from "./uniswap";
+import { aerodromeVenue } from "./aerodrome";
+import { whaleRouteVenue } from "./replicate";
+
+// ─────────────────────────────────────────────
+// VENUES DE EXECUÇÃO — rota da whale, 0x, Uniswap V3 direto, Aerodrome direto
+// ─────────────────────────────────────────────
+// EXECUTION_VENUES=whale,0x,uniswap,aerodrome → venues habilitadas, na ordem de preferência
+//   (0x só entra com ZEROX_API_KEY; sem ela o bot roda só com routers diretos, ex: fork no Anvil)
+// VENUE_MODE=best     → cota em todas e usa a que entrega mais (padrão)
+// VENUE_MODE=ordered  → usa a primeira da lista que tiver liquidez
+// Nos dois modos, se a cotação firme de uma venue falhar, passa pra próxima.
+
+export interface VenueRequest {
+  chain: ChainConfig;
+  provider: ethers.JsonRpcProvider;
+  sellToken: string;   // ETH nativo = 0xEeee...
+  buyToken: string;
+  sellAmount: bigint;
+  taker: string;
+  route?: SwapRoute;   // rota decodificada do swap da whale (só a venue "whale" usa)
+}
+
+export interface VenueTx {
+  to: string;
+  data: string;
+  value?: string;
+  gas?: string;
+}
+
+export interface VenueQuote {
+  venue: string;
+  buyAmount: bigint;
+  minBuyAmount?: bigint;
+  spender: string | null;   // quem precisa de allowance do sellToken (null = ETH nativo)
+  transaction?: VenueTx;    // só na cotação firme
+  gasCostEth?: number;      // estimativa da própria venue (modo paper)
+  raw?: any;                // resposta original (0x: tokenMetadata com taxas)
+}
+
+export type VenueParams = Omit<VenueRequest, "provider">;
+
+export interface RankedPrice {
+  venue: ExecutionVenue;
+  price: VenueQuote;
+}
+
+export interface ExecutionVenue {
+  name: string;
+  supports(chain: ChainConfig): boolean;
+  // Cotação indicativa, sem transação
+  price(req: VenueRequest): Promise<VenueQuote | null>;
+  // Cotação firme com a transação pronta pra assinar
+  quote(req: VenueRequest, slippageBps: number): Promise<VenueQuote | null>;
+}
+
+function isNativeEth(token: string): boolean {
+  return token.toLowerCase() === ETH_ADDRESS;
+}
+
+// ── 0x (AllowanceHolder) ──
+
+const zeroExVenue: ExecutionVenue = {
+  name: "0x",
+  supports: () => Boolean(process.env.ZEROX_API_KEY),
+
+  async price(req) {
+    const data = await getZeroExPrice({
+      chainId: req.chain.chainId,
+      sellToken: req.sellToken,
+      buyToken: req.buyToken,
+      sellAmount: req.sellAmount.toString(),
+      taker: req.taker,
+    });
+    if (!data?.liquidityAvailable || !data?.buyAmount) return null;
+    return {
+      venue: "0x",
+      buyAmount: BigInt(data.buyAmount),
+      minBuyAmount: data.minBuyAmount ? BigInt(data.minBuyAmount) : undefined,
+      spender: isNativeEth(req.sellToken) ? null : data.issues?.allowance?.spender ?? ALLOWANCE_HOLDER,
+      raw: data,
+    };
+  },
+
+  async quote(req, slippageBps) {
+    const data = await getZeroExQuote({
+      chainId: req.chain.chainId,
+      sellToken: req.sellToken,
+      buyToken: req.buyToken,
+      sellAmount: req.sellAmount.toString(),
+      taker: req.taker,
+      slippageBps,
+    });
+    if (!data?.transaction) return null;
+    let gasCostEth: number | undefined;
+    if (data.totalNetworkFee) gasCostEth = parseFloat(ethers.formatEther(data.totalNetworkFee));
+    else if (data.transaction.gas && data.transaction.gasPrice) {
+      gasCostEth = parseFloat(ethers.formatEther(BigInt(data.transaction.gas) * BigInt(data.transaction.gasPrice)));
+    }
+    return {
+      venue: "0x",
+      buyAmount: BigInt(data.buyAmount),
+      minBuyAmount: data.minBuyAmount ? BigInt(data.minBuyAmount) : undefined,
+      spender: isNativeEth(req.sellToken) ? null : data.issues?.allowance?.spender ?? ALLOWANCE_HOLDER,
+      transaction: data.transaction,
+      gasCostEth,
+      raw: data,
+    };
+  },
+};
+
+const ALL_VENUES: ExecutionVenue[] = [whaleRouteVenue, zeroExVenue, uniswapV3Venue, aerodromeVenue];
+
+const VENUE_MODE = (process.env.VENUE_MODE ?? "best").toLowerCase() === "ordered" ? "ordered" : "best";
+
+function configuredVenues(): ExecutionVenue[] {
+  const raw = process.env.EXECUTION_VENUES;
+  if (!raw) return ALL_VENUES;
+  return raw.split(",").map((n) => n.trim().toLowerCase()).filter(Boolean).flatMap((name) => {
+    const venue = ALL_VENUES.find((v) => v.name.toLowerCase() === name);
+    if (!venue) logger.warn(`⚠️  EXECUTION_VENUES: venue desconhecida "${name}"`);
+    return venue ? [venue] : [];
+  });
+}
+
+export function getVenues(chain: ChainConfig): ExecutionVenue[] {
+  return configuredVenues().filter((v) => v.supports(chain));
+}
+
+function errorMessage(err: any): string {
+  return axios.isAxiosError(err) ? JSON.stringify(err.response?.data ?? err.message) : err.shortMessage ?? err.message;
+}
+
+// Cotações indicativas das venues, da preferida pra pior (best: maior buyAmount; ordered: ordem da lista)
+export async function rankPrices(params: VenueParams): Promise<RankedPrice[]> {
+  const req: VenueRequest = { ...params, provider: getProvider(params.chain) };
+  const venues = getVenues(params.chain);
+  if (venues.length === 0) {
+    logger.warn(`⚠️  Nenhuma venue de execução disponível em ${params.chain.name}`);
+    return [];
+  }
+
+  const results = await Promise.all(venues.map(async (venue) => {
+    try {
+      const price = await venue.price(req);
+      return price && price.buyAmount > 0n ? { venue, price } : null;
+    } catch (err: any) {
+      logger.warn(`⚠️  [${venue.name}] Cotação falhou: ${errorMessage(err)}`);
+      return null;
+    }
+  }));
+
+  const ranked = results.filter((r): r is RankedPrice => r !== null);
+  if (VENUE_MODE === "best") ranked.sort((a, b) => (b.price.buyAmount > a.price.buyAmount ? 1 : b.price.buyAmount < a.price.buyAmount ? -1 : 0));
+  if (ranked.length > 1) {
+    logger.info(`🏁 Venues: ${ranked.map((r) => `${r.venue.name}=${r.price.buyAmount}`).join(" | ")}`);
+  }
+  return ranked;
+}
+
+export async function getBestPrice(params: VenueParams): Promise<VenueQuote | null> {
+  const [best] = await rankPrices(params);
+  return best?.price ?? null;
+}
+
+// Cotação firme: tenta as venues na ordem do ranking até uma devolver transação.
+// `beforeQuote` roda antes de cada tentativa (ex: approve pro spender daquela venue).
+export async function firmQuote(
+  params: VenueParams,
+  ranked: RankedPrice[],
+  slippageBps: number,
+  beforeQuote?: (price: VenueQuote) => Promise<boolean>
+): Promise<VenueQuote | null> {
+  const req: VenueRequest = { ...params, provider: getProvider(params.chain) };
+  for (const { venue, price } of ranked) {
+    try {
+      if (beforeQuote && !(await beforeQuote(price))) continue;
+      const quote = await venue.quote(req, slippageBps);
+      if (quote?.transaction) return quote;
+      logger.warn(`⚠️  [${venue.name}] Sem transação na cotação firme, tentando a próxima venue`);
+    } catch (err: any) {
+      logger.warn(`⚠️  [${venue.name}] Cotação firme falhou: ${errorMessage(err)}`);
+    }
+  }
+  return null;
+}
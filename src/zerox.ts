@@ -0,0 +1,40 @@
+import axios from "axios";
+
+// ─────────────────────────────────────────────
+// 0x SWAP API (AllowanceHolder)
+// ─────────────────────────────────────────────
+const ZEROX_PRICE_URL = "https://api.0x.org/swap/allowance-holder/price";
+const ZEROX_QUOTE_URL = "https://api.0x.org/swap/allowance-holder/quote";
+export const ALLOWANCE_HOLDER = "0x0000000000001fF3684f28c67538d4D072C22734";
+export const ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+export interface ZeroExParams {
+  chainId: number;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  taker: string;
+  slippageBps?: number;
+}
+
+function headers() {
+  return { "0x-api-key": process.env.ZEROX_API_KEY!, "0x-version": "v2" };
+}
+
+export async function getZeroExPrice(params: ZeroExParams): Promise<any> {
+  const res = await axios.get(ZEROX_PRICE_URL, {
+    headers: headers(),
+    params,
+    timeout: 10000,
+  });
+  return res.data;
+}
+
+export async function getZeroExQuote(params: ZeroExParams): Promise<any> {
+  const res = await axios.get(ZEROX_QUOTE_URL, {
+    headers: headers(),
+    params,
+    timeout: 10000,
+  });
+  return res.data;
+}
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { decodeSwap, enrichSwap, decodeV3Path, encodeV3Path, SwapInfo } from "../src/decoder";
+import fixtures from "./fixtures/decoder.json";
+
+// Calldata dos routers (Base) com o resultado esperado de cada campo; null = campo ausente.
+// source "abi-encoded" = calldata montado com a ABI do router; tx capturada da chain tem
+// source = chain e txHash (npm run capture-fixture)
+interface Fixture {
+  name: string;
+  source: string;
+  txHash?: string;
+  tx: { from: string; to: string; value: string; data: string };
+  knownRouters?: string[];
+  expected: Record<string, unknown>;
+}
+
+const BIGINT_FIELDS = new Set(["amountIn", "minAmountOut"]);
+
+function decode(f: Fixture): SwapInfo {
+  return decodeSwap({
+    data: f.tx.data,
+    value: BigInt(f.tx.value),
+    to: f.tx.to,
+    from: f.tx.from,
+    knownRouters: f.knownRouters,
+  });
+}
+
+for (const f of fixtures as Fixture[]) {
+  test(`decodeSwap: ${f.name} [${f.txHash ?? f.source}]`, () => {
+    const swap = decode(f);
+    for (const [field, expected] of Object.entries(f.expected)) {
+      const actual = swap[field as keyof SwapInfo];
+      if (expected === null) {
+        assert.equal(actual, undefined, field);
+      } else if (BIGINT_FIELDS.has(field)) {
+        assert.equal(actual?.toString(), expected, field);
+      } else {
+        assert.deepEqual(actual, expected, field);
+      }
+    }
+  });
+}
+
+test("decodeV3Path/encodeV3Path: ida e volta", () => {
+  const tokens = [
+    "0x4200000000000000000000000000000000000006",
+    "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+    "0x4ed4e862860bed51a9570b96d89af5e1b0efefed",
+  ];
+  assert.deepEqual(decodeV3Path(encodeV3Path(tokens, [500, 3000])), tokens);
+});
+
+test("enrichSwap: completa o tokenOut pelos pools", async () => {
+  const f = (fixtures as Fixture[]).find((x) => x.name.startsWith("1inch: unoswap bytes32"))!;
+  const swap = decode(f);
+  const pool = swap.pools![0].pool;
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const tokens: Record<string, string> = {
+    [ethers.id("token0()").slice(0, 10)]: "0x4200000000000000000000000000000000000006",
+    [ethers.id("token1()").slice(0, 10)]: "0x4ed4e862860bed51a9570b96d89af5e1b0efefed",
+  };
+  // Provider mínimo: só responde token0()/token1() do pool da fixture
+  const provider = {
+    call: async (tx: { to: string; data: string }) => {
+      assert.equal(tx.to.toLowerCase(), pool);
+      return coder.encode(["address"], [tokens[tx.data.slice(0, 10)]]);
+    },
+  } as unknown as ethers.Provider;
+
+  const enriched = await enrichSwap(swap, provider);
+  assert.equal(enriched.tokenIn, "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee");
+  assert.equal(enriched.tokenOut, "0x4ed4e862860bed51a9570b96d89af5e1b0efefed");
+});